@@ -0,0 +1,113 @@
+// server/chatProxy.test.ts
+
+import { createServer, request, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChatProxyOptions, createChatProxy, RateLimiter } from './chatProxy';
+
+const chat = { model: 'm', messages: [{ role: 'user', content: 'Hi' }], stream: true, temperature: 2 };
+
+let server: Server | undefined;
+
+const startProxy = async (options: ChatProxyOptions) => {
+  server = createServer(createChatProxy(options));
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return (server.address() as AddressInfo).port;
+};
+
+// The global fetch is stubbed out in tests, so talk to the proxy over node:http
+const send = (port: number, method: string, body?: unknown) =>
+  new Promise<{ status: number; headers: Record<string, unknown>; text: string }>((resolve, reject) => {
+    const req = request({ port, method, path: '/api/chat' }, res => {
+      let text = '';
+      res.on('data', chunk => (text += chunk));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, text }));
+    });
+    req.on('error', reject);
+    req.end(body === undefined ? undefined : JSON.stringify(body));
+  });
+
+const post = (port: number, body: unknown) => send(port, 'POST', body);
+
+const stopProxy = async () => {
+  if (server) await new Promise(resolve => server!.close(resolve));
+  server = undefined;
+};
+
+afterEach(stopProxy);
+
+describe('RateLimiter', () => {
+  it('allows `max` requests per window and says how long to wait after that', () => {
+    const limiter = new RateLimiter({ max: 2, windowMs: 1000 });
+    expect(limiter.check('a', 0)).toBe(0);
+    expect(limiter.check('a', 100)).toBe(0);
+    expect(limiter.check('a', 200)).toBe(800);
+    expect(limiter.check('b', 200)).toBe(0);
+    expect(limiter.check('a', 1000)).toBe(0);
+  });
+});
+
+describe('createChatProxy', () => {
+  it('adds the token, forwards only the chat and streams the reply back', async () => {
+    const upstream = vi.fn<typeof fetch>(
+      async () =>
+        new Response('data: {"choices":[{"delta":{"content":"Oh, joy."}}]}\n\n', {
+          headers: { 'Content-Type': 'text/event-stream' },
+        })
+    );
+    const log = vi.fn();
+    const port = await startProxy({ token: 'secret', fetch: upstream, log });
+
+    const response = await post(port, chat);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('text/event-stream');
+    expect(response.text).toContain('Oh, joy.');
+    const [, init] = upstream.mock.calls[0];
+    expect(init?.headers).toMatchObject({ Authorization: 'Bearer secret' });
+    expect(JSON.parse(String(init?.body))).toEqual({ model: 'm', messages: chat.messages, stream: true });
+    await vi.waitFor(() => expect(log).toHaveBeenCalledWith(expect.stringMatching(/ POST 200 \d+ms model=m$/)));
+    expect(log.mock.calls[0][0]).not.toContain('Hi');
+  });
+
+  it('limits requests per client', async () => {
+    const upstream = vi.fn(async () => Response.json({ choices: [] }));
+    const port = await startProxy({
+      token: 'secret',
+      fetch: upstream,
+      log: () => {},
+      rateLimit: { max: 1, windowMs: 60000 },
+    });
+
+    expect((await post(port, chat)).status).toBe(200);
+    const limited = await post(port, chat);
+    expect(limited.status).toBe(429);
+    expect(limited.headers['retry-after']).toBe('60');
+    expect(upstream).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses bad requests and explains a missing token', async () => {
+    const upstream = vi.fn();
+    let port = await startProxy({ token: 'secret', fetch: upstream, log: () => {} });
+    expect((await post(port, { model: 'm', messages: 'Hi' })).status).toBe(400);
+
+    await stopProxy();
+    port = await startProxy({ fetch: upstream, log: () => {} });
+    const response = await post(port, chat);
+    expect(response.status).toBe(401);
+    expect(JSON.parse(response.text).error).toMatchObject({ message: expect.stringMatching(/HF_TOKEN/), code: 'missing_token' });
+    expect(upstream).not.toHaveBeenCalled();
+  });
+
+  it('reports whether a token is configured without revealing it', async () => {
+    let port = await startProxy({ log: () => {} });
+    expect(JSON.parse((await send(port, 'GET')).text)).toEqual({ configured: false });
+
+    await stopProxy();
+    port = await startProxy({ token: 'secret', log: () => {} });
+    const response = await send(port, 'GET');
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.text)).toEqual({ configured: true });
+    expect((await send(port, 'DELETE')).headers.allow).toBe('GET, POST');
+  });
+});
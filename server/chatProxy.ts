@@ -0,0 +1,228 @@
+// server/chatProxy.ts
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream } from 'node:stream/web';
+
+export const HF_CHAT_URL = 'https://router.huggingface.co/v1/chat/completions';
+// Largest request body we accept; a long chat is a few dozen KB
+export const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface RateLimit {
+  // Requests allowed per client within `windowMs`
+  max: number;
+  windowMs: number;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimit = { max: 20, windowMs: 60000 };
+
+export interface ChatProxyOptions {
+  // Hugging Face token; without it every chat is refused with a 401
+  token?: string;
+  upstreamUrl?: string;
+  rateLimit?: RateLimit;
+  // Identify clients by X-Forwarded-For, for servers behind a reverse proxy
+  trustProxy?: boolean;
+  // One line per request; never includes the conversation
+  log?: (line: string) => void;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Sliding-window limiter keyed by client. `check` records the request and
+ * returns how long the client has to wait, or 0 when it may go ahead.
+ */
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private readonly limit: RateLimit) {}
+
+  check(client: string, now = Date.now()): number {
+    const recent = (this.hits.get(client) ?? []).filter(at => now - at < this.limit.windowMs);
+    if (recent.length >= this.limit.max) {
+      this.hits.set(client, recent);
+      return recent[0] + this.limit.windowMs - now;
+    }
+    this.hits.set(client, [...recent, now]);
+    this.prune(now);
+    return 0;
+  }
+
+  // Forgets clients that have gone quiet, so the map doesn't grow forever
+  private prune(now: number) {
+    if (this.hits.size < 1000) return;
+    for (const [client, times] of this.hits) {
+      if (times.every(at => now - at >= this.limit.windowMs)) this.hits.delete(client);
+    }
+  }
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Sent with the 401 when the server has no token, so the frontend can tell it
+// apart from a token Hugging Face rejected
+export const MISSING_TOKEN_CODE = 'missing_token';
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Same shape as OpenAI-style error bodies, which the frontend already reads
+const sendError = (
+  res: ServerResponse,
+  status: number,
+  message: string,
+  { headers, code }: { headers?: Record<string, string>; code?: string } = {}
+) => sendJson(res, status, { error: { message, code } }, headers);
+
+const clientOf = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (trustProxy && first) || req.socket.remoteAddress || 'unknown';
+};
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'The chat is too long to send.');
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+// Only forward what a chat completion needs, so the route can't be used as a
+// general-purpose gateway to the token
+const parseChatRequest = (body: string) => {
+  let json: Record<string, unknown>;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'The request body must be JSON.');
+  }
+  const { model, messages, stream } = json ?? {};
+  const validMessages =
+    Array.isArray(messages) &&
+    messages.length > 0 &&
+    messages.every(
+      m => m && ['system', 'user', 'assistant'].includes(m.role) && typeof m.content === 'string'
+    );
+  if (typeof model !== 'string' || !model || !validMessages) {
+    throw new HttpError(400, 'Expected a model name and a list of chat messages.');
+  }
+  return { model, messages, stream: stream === true };
+};
+
+/**
+ * Connect-style handler for POST /api/chat. It adds the server's token and
+ * forwards the chat to Hugging Face, streaming the reply straight back.
+ * GET /api/chat reports whether a token is configured, without revealing it.
+ * Works as Vite dev middleware and inside a plain node:http server.
+ */
+export function createChatProxy({
+  token,
+  upstreamUrl = HF_CHAT_URL,
+  rateLimit = DEFAULT_RATE_LIMIT,
+  trustProxy = false,
+  log = console.log,
+  fetch: fetchUpstream = fetch,
+}: ChatProxyOptions) {
+  const limiter = new RateLimiter(rateLimit);
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const startedAt = Date.now();
+    const client = clientOf(req, trustProxy);
+    let model = '-';
+    // 'close' also fires when the client hangs up mid-stream
+    res.on('close', () =>
+      log(
+        `[chat-proxy] ${new Date(startedAt).toISOString()} ${client} ${req.method} ` +
+          `${res.statusCode}${res.writableFinished ? '' : ' aborted'} ${Date.now() - startedAt}ms model=${model}`
+      )
+    );
+
+    if (req.method === 'GET') {
+      sendJson(res, 200, { configured: Boolean(token) }, { 'Cache-Control': 'no-cache' });
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendError(res, 405, 'Use POST.', { headers: { Allow: 'GET, POST' } });
+      return;
+    }
+    const waitMs = limiter.check(client, startedAt);
+    if (waitMs > 0) {
+      sendError(res, 429, 'Too many requests from this client.', {
+        headers: { 'Retry-After': String(Math.ceil(waitMs / 1000)) },
+      });
+      return;
+    }
+    if (!token) {
+      sendError(res, 401, 'HF_TOKEN is not set on the server', { code: MISSING_TOKEN_CODE });
+      return;
+    }
+
+    // Stop paying for a reply nobody will read
+    const upstreamAbort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) upstreamAbort.abort();
+    });
+
+    try {
+      const chat = parseChatRequest(await readBody(req));
+      model = chat.model;
+      const upstream = await fetchUpstream(upstreamUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify(chat),
+        signal: upstreamAbort.signal,
+      });
+
+      const headers: Record<string, string> = {
+        'Content-Type': upstream.headers.get('Content-Type') ?? 'application/json',
+        'Cache-Control': 'no-cache',
+      };
+      const retryAfter = upstream.headers.get('Retry-After');
+      if (retryAfter) headers['Retry-After'] = retryAfter;
+      res.writeHead(upstream.status, headers);
+      if (!upstream.body) {
+        res.end();
+        return;
+      }
+      await pipeline(Readable.fromWeb(upstream.body as ReadableStream), res);
+    } catch (err) {
+      if (upstreamAbort.signal.aborted) return;
+      if (err instanceof HttpError) {
+        sendError(res, err.status, err.message);
+      } else if (res.headersSent) {
+        res.destroy(err as Error);
+      } else {
+        console.error('Failed to reach Hugging Face:', err);
+        sendError(res, 502, 'Could not reach Hugging Face.');
+      }
+    }
+  };
+}
+
+// Reads the proxy settings from environment variables
+export const chatProxyOptionsFromEnv = (env: Record<string, string | undefined>): ChatProxyOptions => {
+  const positive = (value: string | undefined, fallback: number) => {
+    const number = Number(value);
+    return Number.isFinite(number) && number > 0 ? number : fallback;
+  };
+  return {
+    token: env.HF_TOKEN,
+    rateLimit: {
+      max: positive(env.CHAT_RATE_LIMIT, DEFAULT_RATE_LIMIT.max),
+      windowMs: positive(env.CHAT_RATE_WINDOW_MS, DEFAULT_RATE_LIMIT.windowMs),
+    },
+    trustProxy: env.TRUST_PROXY === 'true',
+  };
+};
@@ -0,0 +1,82 @@
+// server/index.ts
+//
+// Production server: serves the built app from dist/ and the /api/chat proxy,
+// so the Hugging Face token stays on the server. Build with `npm run build`,
+// then start with `npm start`.
+
+import { createServer } from 'node:http';
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { extname, join, normalize, resolve, sep } from 'node:path';
+import { chatProxyOptionsFromEnv, createChatProxy } from './chatProxy';
+
+const ROOT = resolve(process.env.STATIC_DIR ?? 'dist');
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST ?? '127.0.0.1';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.wasm': 'application/wasm',
+  '.bin': 'application/octet-stream',
+  '.shard1': 'application/octet-stream',
+};
+
+const isFile = async (path: string) => (await stat(path).catch(() => undefined))?.isFile() ?? false;
+
+// Resolves a URL path inside ROOT, falling back to index.html for client routes
+const resolveFile = async (urlPath: string) => {
+  let path: string;
+  try {
+    path = normalize(join(ROOT, decodeURIComponent(urlPath)));
+  } catch {
+    return undefined;
+  }
+  if (!path.startsWith(ROOT + sep)) return undefined;
+  if (await isFile(path)) return path;
+  const index = join(ROOT, 'index.html');
+  return !extname(path) && (await isFile(index)) ? index : undefined;
+};
+
+const options = chatProxyOptionsFromEnv(process.env);
+if (!options.token) console.warn('HF_TOKEN is not set; /api/chat will refuse every request.');
+const chatProxy = createChatProxy(options);
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  if (pathname === '/api/chat') {
+    await chatProxy(req, res);
+    return;
+  }
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.writeHead(405, { Allow: 'GET, HEAD' }).end();
+    return;
+  }
+
+  const file = await resolveFile(pathname);
+  if (!file) {
+    res.writeHead(404).end('Not found');
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(file)] ?? 'application/octet-stream' });
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+  createReadStream(file)
+    .on('error', err => {
+      console.error('Failed to read file:', err);
+      res.destroy(err);
+    })
+    .pipe(res);
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Mood Spoiler is running at http://${HOST}:${PORT}`);
+});
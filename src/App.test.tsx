@@ -0,0 +1,44 @@
+// src/App.test.tsx
+
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it } from 'vitest';
+import App from './App';
+import { DEFAULT_INTERJECTION_SETTINGS, saveInterjectionSettings } from './utils/interjections';
+import { saveLLMSettings } from './utils/llmConfig';
+import { createMockProvider } from './utils/providers';
+import { parseReplayScript } from './utils/replay';
+import sadStreak from './test/fixtures/sad-streak.json';
+
+describe('App with a replayed emotion timeline', () => {
+  beforeEach(() => {
+    saveLLMSettings({ providerId: 'mock', model: 'mock-spoiler' });
+  });
+
+  it('settles on the scripted mood and spoils it in the reply', async () => {
+    const user = userEvent.setup();
+    render(<App replay={parseReplayScript(sadStreak)} />);
+
+    // The smoother needs a few sad frames before the chat header switches over
+    expect(await screen.findByText(/Frame 6\/6: sad/)).toBeTruthy();
+    const moodButton = await screen.findByTitle('Edit counter-mood mapping');
+    expect(within(moodButton).getByText('sad')).toBeTruthy();
+    expect(within(moodButton).getByText('obnoxiously cheerful')).toBeTruthy();
+
+    await user.type(screen.getByPlaceholderText('Type your message...'), 'Everything is fine{Enter}');
+
+    const reply = await createMockProvider().complete(
+      [{ role: 'user', content: 'Everything is fine' }],
+      'mock-spoiler'
+    );
+    expect(await screen.findByText(reply)).toBeTruthy();
+    expect(screen.getByText('Response to: sad')).toBeTruthy();
+  });
+
+  it('butts in unprompted once a new mood has held', async () => {
+    saveInterjectionSettings({ ...DEFAULT_INTERJECTION_SETTINGS, enabled: true, holdMs: 1 });
+    render(<App replay={parseReplayScript(sadStreak)} />);
+
+    expect(await screen.findByText('Butted in on: sad')).toBeTruthy();
+  });
+});
@@ -1,30 +1,189 @@
-import React, { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import WebcamFeed from './components/WebcamFeed';
 import ChatInterface from './components/ChatInterface';
+import ReplayFeed from './components/ReplayFeed';
+import InterjectionSettingsMenu from './components/InterjectionSettingsMenu';
+import PrivacyMenu from './components/PrivacyMenu';
+import ThemeMenu from './components/ThemeMenu';
+import MoodTheme from './components/MoodTheme';
+import GameMenu from './components/GameMenu';
+import GameHud from './components/GameHud';
+import RoundSummaryCard from './components/RoundSummaryCard';
 import { Camera, MessageSquare, Zap } from 'lucide-react';
+import { EmotionProbabilities, probabilitiesFor } from './utils/emotions';
+import { EmotionSmoother, EmotionState } from './utils/emotionState';
+import { appendSample, EmotionSample } from './utils/emotionTimeline';
+import { GroupReading } from './utils/faceTracker';
+import {
+  addToLeaderboard,
+  createRound,
+  GameProgress,
+  GameRound,
+  GameScorer,
+  GameSettings,
+  loadGameSettings,
+  loadLeaderboard,
+  RoundSummary,
+  saveGameSettings,
+  saveLeaderboard,
+} from './utils/game';
+import {
+  Interjection,
+  InterjectionSettings,
+  InterjectionTrigger,
+  loadInterjectionSettings,
+  saveInterjectionSettings,
+} from './utils/interjections';
+import {
+  counterMoodFor,
+  CounterMoodOverrides,
+  loadCounterMoodOverrides,
+  saveCounterMoodOverrides,
+} from './utils/moodMapping';
+import {
+  forgetEverything,
+  loadPrivacySettings,
+  PrivacySettings,
+  savePrivacySettings,
+} from './utils/privacy';
+import { ReplayScript } from './utils/replay';
+import { loadThemeSettings, saveThemeSettings, themeFor, ThemeSettings } from './utils/theme';
 
-function App() {
-  const [detectedEmotion, setDetectedEmotion] = useState('neutral');
+interface AppProps {
+  // Scripted emotion timeline that replaces the camera, for tests and bug repros
+  replay?: ReplayScript;
+}
+
+function App({ replay }: AppProps) {
+  const smootherRef = useRef(new EmotionSmoother());
+  const [emotionState, setEmotionState] = useState<EmotionState>({
+    stable: 'neutral',
+    confidence: 1,
+    probabilities: probabilitiesFor('neutral', 1),
+  });
+  const [emotionTimeline, setEmotionTimeline] = useState<EmotionSample[]>([]);
+  const [group, setGroup] = useState<GroupReading | null>(null);
   const [showInfoCards, setShowInfoCards] = useState(true);
+  const [interjectionSettings, setInterjectionSettings] =
+    useState<InterjectionSettings>(loadInterjectionSettings);
+  const interjectionTriggerRef = useRef(new InterjectionTrigger(interjectionSettings));
+  const [interjection, setInterjection] = useState<Interjection | null>(null);
+  const [privacy, setPrivacy] = useState<PrivacySettings>(loadPrivacySettings);
+  const [gameSettings, setGameSettings] = useState<GameSettings>(loadGameSettings);
+  const [gameRound, setGameRound] = useState<GameRound | null>(null);
+  const gameScorerRef = useRef<GameScorer | null>(null);
+  const [gameProgress, setGameProgress] = useState<GameProgress | null>(null);
+  const [roundSummary, setRoundSummary] = useState<RoundSummary | null>(null);
+  const [leaderboard, setLeaderboard] = useState<RoundSummary[]>(loadLeaderboard);
+  const [themeSettings, setThemeSettings] = useState<ThemeSettings>(loadThemeSettings);
+  const [counterMoodOverrides, setCounterMoodOverrides] =
+    useState<CounterMoodOverrides>(loadCounterMoodOverrides);
+
+  useEffect(() => {
+    interjectionTriggerRef.current.setSettings(interjectionSettings);
+    saveInterjectionSettings(interjectionSettings);
+  }, [interjectionSettings]);
+
+  useEffect(() => {
+    savePrivacySettings(privacy);
+  }, [privacy]);
+
+  const handleCameraConsent = useCallback(
+    (granted: boolean) => setPrivacy(prev => ({ ...prev, cameraConsent: granted })),
+    []
+  );
+
+  useEffect(() => {
+    saveGameSettings(gameSettings);
+  }, [gameSettings]);
+
+  useEffect(() => {
+    saveLeaderboard(leaderboard);
+  }, [leaderboard]);
+
+  useEffect(() => {
+    saveThemeSettings(themeSettings);
+  }, [themeSettings]);
+
+  useEffect(() => {
+    saveCounterMoodOverrides(counterMoodOverrides);
+  }, [counterMoodOverrides]);
+
+  const handleStartRound = () => {
+    const round = createRound(gameSettings);
+    const scorer = new GameScorer(round);
+    // Whatever mood the user is in right now counts from the first moment
+    scorer.update(emotionState.stable, round.startedAt);
+    gameScorerRef.current = scorer;
+    setGameProgress(scorer.progress(round.startedAt));
+    setRoundSummary(null);
+    setGameRound(round);
+  };
+
+  // Quitting early throws the round away instead of scoring it
+  const handleQuitRound = () => {
+    gameScorerRef.current = null;
+    setGameRound(null);
+    setGameProgress(null);
+  };
+
+  useEffect(() => {
+    if (!gameRound) return;
+    const timer = setTimeout(() => {
+      const scorer = gameScorerRef.current;
+      if (!scorer) return;
+      const summary = scorer.finish();
+      gameScorerRef.current = null;
+      setLeaderboard(prev => addToLeaderboard(prev, summary));
+      setRoundSummary(summary);
+      setGameRound(null);
+      setGameProgress(null);
+    }, gameRound.startedAt + gameRound.durationMs - Date.now());
+    return () => clearTimeout(timer);
+  }, [gameRound]);
 
-  const handleEmotionDetected = (emotion: string) => {
-    setDetectedEmotion(emotion);
+  const handleForgetEverything = () => {
+    forgetEverything()
+      .then(() => window.location.reload())
+      .catch(err => console.error('Failed to forget everything:', err));
   };
 
+  // Stable identity so WebcamFeed doesn't restart the camera on every render
+  const handleEmotionDetected = useCallback(
+    (_emotion: string, probabilities: EmotionProbabilities) => {
+      const state = smootherRef.current.update(probabilities);
+      setEmotionState(state);
+      setEmotionTimeline(prev =>
+        appendSample(prev, { at: Date.now(), emotion: state.stable, probabilities })
+      );
+      const change = interjectionTriggerRef.current.update(state.stable);
+      if (change) setInterjection(change);
+      const scorer = gameScorerRef.current;
+      if (scorer) {
+        scorer.update(state.stable);
+        setGameProgress(scorer.progress());
+      }
+    },
+    []
+  );
+
   useEffect(()=>{
     const timer = setTimeout(()=>setShowInfoCards(false),5000);
     return () => clearTimeout(timer);
-  })
+  }, [])
+
 
+  // The page takes on the mood the bot is acting out
+  const counterMood = counterMoodFor(emotionState.stable, counterMoodOverrides);
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
+    <MoodTheme target={counterMood.target} settings={themeSettings}>
       {/* Header */}
-      <header className="bg-black/20 backdrop-blur-sm border-b border-gray-700">
+      <header className="relative z-40 bg-black/20 backdrop-blur-sm border-b border-gray-700">
         <div className="container mx-auto px-6 py-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
-              <div className="w-10 h-10 bg-gradient-to-r from-emerald-500 to-teal-500 rounded-lg flex items-center justify-center">
+              <div className="w-10 h-10 theme-accent-bg rounded-lg flex items-center justify-center">
                 <Zap className="w-6 h-6 text-white" />
               </div>
               <div>
@@ -32,15 +191,21 @@ function App() {
                 <p className="text-gray-400 text-sm">AI Chatbot that ruins your vibe</p>
               </div>
             </div>
-            <div className="hidden md:flex items-center space-x-6 text-gray-300">
-              <div className="flex items-center space-x-2">
-                <Camera className="w-5 h-5 text-emerald-400" />
+            <div className="flex items-center space-x-6 text-gray-300">
+              <div className="hidden md:flex items-center space-x-2">
+                <Camera className="w-5 h-5 theme-accent-text" />
                 <span className="text-sm">Emotion Detection</span>
               </div>
-              <div className="flex items-center space-x-2">
+              <div className="hidden md:flex items-center space-x-2">
                 <MessageSquare className="w-5 h-5 text-amber-400" />
                 <span className="text-sm">Opposite Responses</span>
               </div>
+              <ThemeMenu
+                settings={themeSettings}
+                onChange={setThemeSettings}
+                theme={themeFor(counterMood.target, themeSettings)}
+              />
+              <PrivacyMenu settings={privacy} onChange={setPrivacy} onForgetEverything={handleForgetEverything} />
             </div>
           </div>
         </div>
@@ -51,23 +216,69 @@ function App() {
         <div className="grid lg:grid-cols-2 gap-8 h-[calc(100vh-200px)]">
           {/* Webcam Section */}
           <div className="space-y-4">
-            <div className="flex items-center space-x-3">
-              <Camera className="w-6 h-6 text-emerald-400" />
-              <h2 className="text-xl font-semibold text-white">Live Emotion Detection</h2>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Camera className="w-6 h-6 theme-accent-text" />
+                <h2 className="text-xl font-semibold text-white">Live Emotion Detection</h2>
+              </div>
+              {gameRound && <GameHud round={gameRound} progress={gameProgress} />}
             </div>
-            <div className="h-full min-h-[400px]">
-              <WebcamFeed onEmotionDetected={handleEmotionDetected} />
+            <div className="relative h-full min-h-[400px]">
+              {replay ? (
+                <ReplayFeed script={replay} onEmotionDetected={handleEmotionDetected} />
+              ) : (
+                <WebcamFeed
+                  onEmotionDetected={handleEmotionDetected}
+                  onGroupDetected={setGroup}
+                  cameraConsent={privacy.cameraConsent}
+                  onCameraConsent={handleCameraConsent}
+                />
+              )}
+              {roundSummary && (
+                <RoundSummaryCard
+                  summary={roundSummary}
+                  leaderboard={leaderboard}
+                  onPlayAgain={handleStartRound}
+                  onClose={() => setRoundSummary(null)}
+                />
+              )}
             </div>
           </div>
 
           {/* Chat Section */}
           <div className="space-y-4">
-            <div className="flex items-center space-x-3">
-              <MessageSquare className="w-6 h-6 text-amber-400" />
-              <h2 className="text-xl font-semibold text-white">Mood-Opposite Chat</h2>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <MessageSquare className="w-6 h-6 text-amber-400" />
+                <h2 className="text-xl font-semibold text-white">Mood-Opposite Chat</h2>
+              </div>
+              <div className="flex items-center space-x-1">
+                <GameMenu
+                  settings={gameSettings}
+                  onChange={setGameSettings}
+                  round={gameRound}
+                  onStart={handleStartRound}
+                  onStop={handleQuitRound}
+                  leaderboard={leaderboard}
+                />
+                <InterjectionSettingsMenu
+                  settings={interjectionSettings}
+                  onChange={setInterjectionSettings}
+                />
+              </div>
             </div>
             <div className="h-full min-h-[400px]">
-              <ChatInterface detectedEmotion={detectedEmotion} />
+              <ChatInterface
+                detectedEmotion={emotionState.stable}
+                emotionConfidence={emotionState.confidence}
+                emotionTimeline={emotionTimeline}
+                group={group}
+                interjection={interjection}
+                strictLocal={privacy.strictLocal}
+                game={gameRound}
+                counterMoodOverrides={counterMoodOverrides}
+                onCounterMoodOverridesChange={setCounterMoodOverrides}
+              />
             </div>
           </div>
         </div>
@@ -107,7 +318,7 @@ function App() {
         </div>
         )}
       </main>
-    </div>
+    </MoodTheme>
   );
 }
 
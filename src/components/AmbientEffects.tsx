@@ -0,0 +1,65 @@
+// src/components/AmbientEffects.tsx
+
+import React, { useMemo } from 'react';
+import { AmbientEffect } from '../utils/theme';
+
+interface AmbientEffectsProps {
+  effect: Exclude<AmbientEffect, 'none'>;
+}
+
+const PARTICLE_COUNTS: Record<AmbientEffectsProps['effect'], number> = {
+  rain: 60,
+  confetti: 40,
+  bubbles: 20,
+  sparkles: 30,
+};
+
+const CONFETTI_COLORS = ['#f472b6', '#fbbf24', '#34d399', '#60a5fa', '#a78bfa'];
+
+// Stable pseudo-random 0..1 per particle, so re-renders don't reshuffle them
+const noise = (i: number, salt: number) => {
+  const x = Math.sin(i * 12.9898 + salt * 78.233) * 43758.5453;
+  return x - Math.floor(x);
+};
+
+const particleStyle = (effect: AmbientEffectsProps['effect'], i: number): React.CSSProperties => {
+  const left = `${noise(i, 1) * 100}%`;
+  switch (effect) {
+    case 'rain':
+      return { left, animationDuration: `${0.6 + noise(i, 2) * 0.6}s`, animationDelay: `-${noise(i, 3) * 2}s` };
+    case 'confetti':
+      return {
+        left,
+        backgroundColor: CONFETTI_COLORS[i % CONFETTI_COLORS.length],
+        animationDuration: `${4 + noise(i, 2) * 4}s`,
+        animationDelay: `-${noise(i, 3) * 8}s`,
+      };
+    case 'bubbles':
+      return { left, animationDuration: `${8 + noise(i, 2) * 8}s`, animationDelay: `-${noise(i, 3) * 16}s` };
+    case 'sparkles':
+      return {
+        left,
+        top: `${noise(i, 4) * 100}%`,
+        animationDuration: `${2 + noise(i, 2) * 3}s`,
+        animationDelay: `-${noise(i, 3) * 5}s`,
+      };
+  }
+};
+
+// Decorative particles behind the whole page; never takes pointer events
+const AmbientEffects: React.FC<AmbientEffectsProps> = ({ effect }) => {
+  const particles = useMemo(
+    () => Array.from({ length: PARTICLE_COUNTS[effect] }, (_, i) => particleStyle(effect, i)),
+    [effect]
+  );
+
+  return (
+    <div className="fixed inset-0 z-0 overflow-hidden pointer-events-none animate-fadeIn" aria-hidden="true">
+      {particles.map((style, i) => (
+        <span key={i} className={`ambient-particle ambient-${effect}`} style={style} />
+      ))}
+    </div>
+  );
+};
+
+export default AmbientEffects;
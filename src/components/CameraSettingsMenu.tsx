@@ -0,0 +1,108 @@
+// src/components/CameraSettingsMenu.tsx
+
+import React, { useState } from 'react';
+import { Settings } from 'lucide-react';
+import {
+  CameraSettings,
+  DETECTION_INTERVALS,
+  RESOLUTIONS,
+  ResolutionId,
+} from '../utils/cameraSettings';
+
+interface CameraSettingsMenuProps {
+  settings: CameraSettings;
+  cameras: MediaDeviceInfo[];
+  // Interval the active detector uses when none is chosen
+  defaultIntervalMs?: number;
+  onChange: (settings: CameraSettings) => void;
+}
+
+const selectClassName =
+  'w-full bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const CameraSettingsMenu: React.FC<CameraSettingsMenuProps> = ({
+  settings,
+  cameras,
+  defaultIntervalMs,
+  onChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (patch: Partial<CameraSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="p-2 bg-black/50 backdrop-blur-sm rounded-lg border border-gray-600 text-gray-300 hover:text-white"
+        aria-label="Camera settings"
+        aria-expanded={isOpen}
+      >
+        <Settings className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 bottom-full mb-2 z-30 w-64 bg-gray-800 border border-gray-700 rounded-xl shadow-lg p-3 space-y-3 animate-fadeInUp">
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Camera</span>
+            <select
+              value={settings.deviceId}
+              onChange={(e) => update({ deviceId: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">Default camera</option>
+              {cameras.map((camera, index) => (
+                <option key={camera.deviceId} value={camera.deviceId}>
+                  {camera.label || `Camera ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Resolution</span>
+            <select
+              value={settings.resolution}
+              onChange={(e) => update({ resolution: e.target.value as ResolutionId })}
+              className={selectClassName}
+            >
+              {(Object.keys(RESOLUTIONS) as ResolutionId[]).map(id => (
+                <option key={id} value={id}>
+                  {RESOLUTIONS[id].label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Detect every</span>
+            <select
+              value={settings.intervalMs ?? ''}
+              onChange={(e) => update({ intervalMs: e.target.value ? Number(e.target.value) : null })}
+              className={selectClassName}
+            >
+              <option value="">Default{defaultIntervalMs ? ` (${defaultIntervalMs} ms)` : ''}</option>
+              {DETECTION_INTERVALS.map(ms => (
+                <option key={ms} value={ms}>
+                  {ms} ms
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center space-x-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.mirror}
+              onChange={(e) => update({ mirror: e.target.checked })}
+              className="accent-emerald-500"
+            />
+            <span>Mirror image</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraSettingsMenu;
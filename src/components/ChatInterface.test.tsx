@@ -0,0 +1,127 @@
+// src/components/ChatInterface.test.tsx
+
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import ChatInterface from './ChatInterface';
+import { saveLLMSettings } from '../utils/llmConfig';
+import { createMockProvider } from '../utils/providers';
+import { listSessions } from '../utils/sessionStore';
+
+const mockReplyTo = (text: string) =>
+  createMockProvider().complete([{ role: 'user', content: text }], 'mock-spoiler');
+
+describe('ChatInterface', () => {
+  beforeEach(() => {
+    saveLLMSettings({ providerId: 'mock', model: 'mock-spoiler' });
+  });
+
+  it('shows the counter-mood for the detected emotion', () => {
+    render(<ChatInterface detectedEmotion="sad" emotionConfidence={0.9} />);
+
+    expect(screen.getByText('obnoxiously cheerful')).toBeTruthy();
+    expect(screen.getByText('(90%)')).toBeTruthy();
+  });
+
+  it('answers with the mock provider and saves the session', async () => {
+    const user = userEvent.setup();
+    render(<ChatInterface detectedEmotion="angry" />);
+
+    await user.type(screen.getByPlaceholderText('Type your message...'), 'My code compiled on the first try{Enter}');
+
+    expect(await screen.findByText(await mockReplyTo('My code compiled on the first try'))).toBeTruthy();
+    expect(screen.getByText('Response to: angry')).toBeTruthy();
+
+    await waitFor(async () => {
+      const sessions = await listSessions();
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]).toMatchObject({ title: 'My code compiled on the first try', messageCount: 3 });
+    });
+  });
+
+  it('restores the latest session after a remount', async () => {
+    const user = userEvent.setup();
+    const { unmount } = render(<ChatInterface detectedEmotion="neutral" />);
+
+    await user.type(screen.getByPlaceholderText('Type your message...'), 'Remember me{Enter}');
+    const reply = await mockReplyTo('Remember me');
+    await screen.findByText(reply);
+    await waitFor(async () => expect(await listSessions()).toHaveLength(1));
+    unmount();
+
+    render(<ChatInterface detectedEmotion="neutral" />);
+    expect(await screen.findByText('Remember me')).toBeTruthy();
+    expect(screen.getByText(reply)).toBeTruthy();
+  });
+
+  it('offers a retry instead of a fake reply when the provider refuses', async () => {
+    saveLLMSettings({ providerId: 'ollama', model: 'llama3.1' });
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('{"error":"bad key"}', { status: 401 }))
+      .mockResolvedValueOnce(new Response('{"message":{"content":"Oh, joy."}}\n'));
+    vi.stubGlobal('fetch', fetchMock);
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const user = userEvent.setup();
+    render(<ChatInterface detectedEmotion="happy" />);
+
+    await user.type(screen.getByPlaceholderText('Type your message...'), 'Best day ever{Enter}');
+
+    expect((await screen.findByRole('alert')).textContent).toMatch(/token was rejected \(401\)/);
+    // Auth errors aren't retried automatically, and no bot message was made up
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(screen.queryByText(/Response to/)).toBeNull();
+
+    await user.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(await screen.findByText('Oh, joy.')).toBeTruthy();
+    expect(screen.queryByRole('alert')).toBeNull();
+    logError.mockRestore();
+  });
+
+  it('shows the setup steps when the server has no HF_TOKEN', async () => {
+    saveLLMSettings({ providerId: 'huggingface', model: 'zai-org/GLM-4.5:novita' });
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ configured: false })));
+    render(<ChatInterface detectedEmotion="happy" />);
+
+    expect(await screen.findByText('Hugging Face needs an API token')).toBeTruthy();
+    expect(screen.getByText('HF_TOKEN=…')).toBeTruthy();
+  });
+
+  it('tells a missing server token apart from a rejected one', async () => {
+    saveLLMSettings({ providerId: 'huggingface', model: 'zai-org/GLM-4.5:novita' });
+    const missing = { error: { message: 'HF_TOKEN is not set on the server', code: 'missing_token' } };
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init?: RequestInit) =>
+        init?.method === 'POST' ? Response.json(missing, { status: 401 }) : new Response('Not found', { status: 404 })
+      )
+    );
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const user = userEvent.setup();
+    render(<ChatInterface detectedEmotion="happy" />);
+
+    await user.type(screen.getByPlaceholderText('Type your message...'), 'Best day ever{Enter}');
+
+    expect(await screen.findByText('Hugging Face needs an API token')).toBeTruthy();
+    expect(screen.queryByText(/token was rejected/)).toBeNull();
+    logError.mockRestore();
+  });
+
+  it('keeps a second message in the input while a reply is still streaming', async () => {
+    saveLLMSettings({ providerId: 'ollama', model: 'llama3.1' });
+    let respond!: (response: Response) => void;
+    const fetchMock = vi.fn(() => new Promise<Response>(resolve => { respond = resolve; }));
+    vi.stubGlobal('fetch', fetchMock);
+    const user = userEvent.setup();
+    render(<ChatInterface detectedEmotion="happy" />);
+    const input = screen.getByPlaceholderText<HTMLInputElement>('Type your message...');
+
+    await user.type(input, 'First{Enter}');
+    await user.type(input, 'Second{Enter}');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(input.value).toBe('Second');
+
+    respond(new Response('{"message":{"content":"Oh, joy."}}\n'));
+    expect(await screen.findByText('Oh, joy.')).toBeTruthy();
+  });
+});
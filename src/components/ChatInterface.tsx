@@ -1,22 +1,85 @@
 // src/components/ChatInterface.tsx
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User } from 'lucide-react';
-import { getAIBotReply } from '../utils/api';
-
-interface Message {
-  id: string;
-  text: string;
-  sender: 'user' | 'bot';
-  timestamp: Date;
-  emotion?: string;
-}
+import { Send, Bot, User, Square, History, Drama, LineChart, RotateCcw } from 'lucide-react';
+import { EmotionContext, getAIBotReply, summarizeTurns } from '../utils/api';
+import { LLMError, MissingTokenError } from '../utils/apiErrors';
+import { PrivacyError } from '../utils/privacy';
+import { formatProbabilities } from '../utils/emotions';
+import { EmotionSample, summarizeTimeline } from '../utils/emotionTimeline';
+import { GroupReading } from '../utils/faceTracker';
+import { Interjection, interjectionCue } from '../utils/interjections';
+import { DIFFICULTIES, gameJabCue, GameRound } from '../utils/game';
+import {
+  ContextSettings,
+  extendMemory,
+  historyToSend,
+  loadContextSettings,
+  saveContextSettings,
+  splitHistory,
+  unsummarized,
+} from '../utils/contextWindow';
+import { LLMSettings, loadLLMSettings, saveLLMSettings } from '../utils/llmConfig';
+import { MissingApiKeys, needsProviderSetup, providers, withMissingApiKey } from '../utils/providers';
+import { counterMoodFor, CounterMoodOverrides } from '../utils/moodMapping';
+import {
+  activePersona,
+  loadPersonaSettings,
+  PersonaSettings,
+  savePersonaSettings,
+} from '../utils/personas';
+import {
+  appendEmotionLog,
+  deleteSession,
+  listSessions,
+  loadEmotionLog,
+  loadSession,
+  renameSession,
+  saveSession,
+} from '../utils/sessionStore';
+import {
+  downloadTranscript,
+  importJSON,
+  TranscriptFormat,
+  TranscriptImportError,
+} from '../utils/transcript';
+import { analyzeSentiment, MISMATCH_THRESHOLD, mismatchScore } from '../utils/textSentiment';
+import { speak, stopSpeaking } from '../utils/textToSpeech';
+import { loadVoiceSettings, saveVoiceSettings, VoiceSettings } from '../utils/voiceSettings';
+import { ChatSession, ConversationMemory, EmotionLogEntry, Message, SessionSummary } from '../types/chat';
+import MoodDashboard from './MoodDashboard';
+import MoodMappingEditor from './MoodMappingEditor';
+import ContextSettingsMenu from './ContextSettingsMenu';
+import PersonaEditor from './PersonaEditor';
+import ProviderPicker from './ProviderPicker';
+import ProviderSetupScreen from './ProviderSetupScreen';
+import PushToTalkButton from './PushToTalkButton';
+import SessionSidebar from './SessionSidebar';
+import TranscriptMenu from './TranscriptMenu';
+import VoiceSettingsMenu from './VoiceSettingsMenu';
 
 interface ChatInterfaceProps {
+  // Smoothed, settled mood rather than the latest raw frame
   detectedEmotion: string;
+  emotionConfidence?: number;
+  emotionTimeline?: EmotionSample[];
+  group?: GroupReading | null;
+  // Latest sustained mood change the bot should react to unprompted
+  interjection?: Interjection | null;
+  // Only providers on this device may be used
+  strictLocal?: boolean;
+  // Game round in progress; the bot jabs at the target mood until it ends
+  game?: GameRound | null;
+  // User edits to the emotion → counter-mood mapping, shared with the theme
+  counterMoodOverrides?: CounterMoodOverrides;
+  onCounterMoodOverridesChange?: (overrides: CounterMoodOverrides) => void;
 }
 
-const MessageBubble: React.FC<{ message: Message }> = ({ message }) => {
+const MessageBubble: React.FC<{ message: Message; isStreaming?: boolean; onRetry?: () => void }> = ({
+  message,
+  isStreaming = false,
+  onRetry,
+}) => {
   const isUser = message.sender === 'user';
   return (
     <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} animate-fadeInUp`}>
@@ -33,7 +96,12 @@ const MessageBubble: React.FC<{ message: Message }> = ({ message }) => {
           ) : (
             <User className="w-4 h-4 mt-0.5 text-emerald-100 flex-shrink-0" />
           )}
-          <p className="text-sm leading-relaxed">{message.text}</p>
+          <p className="text-sm leading-relaxed">
+            {message.text}
+            {isStreaming && (
+              <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-emerald-400 animate-pulse" />
+            )}
+          </p>
         </div>
         <div className="flex justify-between items-center mt-2">
           <span className="text-xs opacity-70">
@@ -41,85 +109,559 @@ const MessageBubble: React.FC<{ message: Message }> = ({ message }) => {
           </span>
           {message.emotion && (
             <span className="text-xs opacity-70 capitalize">
-              Response to: {message.emotion}
+              {message.interjection ? 'Butted in on' : 'Response to'}: {message.emotion}
+            </span>
+          )}
+          {message.moodSummary && (
+            <span
+              className="text-xs opacity-70"
+              title={message.expressions && formatProbabilities(message.expressions)}
+            >
+              {message.moodSummary}
+            </span>
+          )}
+          {message.mismatch !== undefined && (
+            <span
+              className={`text-xs px-1.5 py-0.5 rounded-full ${
+                message.mismatch >= MISMATCH_THRESHOLD ? 'bg-amber-400 text-gray-900' : 'opacity-70'
+              }`}
+              title={`Text sentiment ${message.sentiment?.toFixed(2) ?? '?'} vs face`}
+            >
+              {message.mismatch >= MISMATCH_THRESHOLD ? 'Words ≠ face' : 'Words ≈ face'}{' '}
+              {Math.round(message.mismatch * 100)}%
             </span>
           )}
         </div>
+        {message.error && (
+          <div className="flex items-center justify-between mt-2 pt-2 border-t border-white/20 text-xs">
+            <span role="alert">{message.error}</span>
+            {onRetry && (
+              <button
+                onClick={onRetry}
+                className="flex items-center space-x-1 ml-2 px-2 py-1 rounded-lg bg-white/20 hover:bg-white/30 font-medium"
+              >
+                <RotateCcw className="w-3 h-3" />
+                <span>Retry</span>
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ detectedEmotion }) => {
-  const [messages, setMessages] = useState<Message[]>(
-    [
-      {
-        id: crypto.randomUUID(),
-        text: "Hi there! I'm your Mood Spoiler bot. I'll detect your emotions and give you the OPPOSITE vibes! 😈",
-        sender: 'bot',
-        timestamp: new Date(),
-      },
-    ]
-  );
+const DEFAULT_TITLE = 'New chat';
+
+// The emotion log keeps a sample at least this often, plus every mood change
+const LOG_SAMPLE_MS = 1000;
+const LOG_FLUSH_MS = 10000;
+// Unsaved chats only buffer their newest hour or so of samples
+const MAX_PENDING_LOG = 3600;
+
+const createGreeting = (): Message => ({
+  id: crypto.randomUUID(),
+  text: "Hi there! I'm your Mood Spoiler bot. I'll detect your emotions and give you the OPPOSITE vibes! 😈",
+  sender: 'bot',
+  timestamp: new Date(),
+  greeting: true,
+});
+
+const createSessionInfo = (): Omit<ChatSession, 'messages' | 'updatedAt'> => ({
+  id: crypto.randomUUID(),
+  title: DEFAULT_TITLE,
+  createdAt: new Date(),
+});
+
+// Untitled sessions are named after the first thing the user said
+const deriveTitle = (messages: Message[]) => {
+  const firstUserText = messages.find(m => m.sender === 'user')?.text.trim();
+  if (!firstUserText) return DEFAULT_TITLE;
+  return firstUserText.length > 40 ? `${firstUserText.slice(0, 40)}…` : firstUserText;
+};
+
+const NO_OVERRIDES: CounterMoodOverrides = {};
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({
+  detectedEmotion,
+  emotionConfidence,
+  emotionTimeline = [],
+  group = null,
+  interjection = null,
+  strictLocal = false,
+  game = null,
+  counterMoodOverrides = NO_OVERRIDES,
+  onCounterMoodOverridesChange = () => {},
+}) => {
+  const [messages, setMessages] = useState<Message[]>(() => [createGreeting()]);
+  const [sessionInfo, setSessionInfo] = useState(createSessionInfo);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isRestored, setIsRestored] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
   const [inputText, setInputText] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const [llmSettings, setLLMSettings] = useState<LLMSettings>(loadLLMSettings);
+  // Tokens our own server said it is missing, by provider
+  const [serverMissingKeys, setServerMissingKeys] = useState<MissingApiKeys>({});
+  const [personaSettings, setPersonaSettings] = useState<PersonaSettings>(loadPersonaSettings);
+  const [showPersonaEditor, setShowPersonaEditor] = useState(false);
+  const [showMoodMapping, setShowMoodMapping] = useState(false);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(loadVoiceSettings);
+  const [contextSettings, setContextSettings] = useState<ContextSettings>(loadContextSettings);
+  const [dashboardLog, setDashboardLog] = useState<EmotionLogEntry[] | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // When the user started writing the current message
+  const typingStartedAtRef = useRef<number | null>(null);
+  // Messages that came straight from storage and don't need saving again
+  const loadedMessagesRef = useRef<Message[] | null>(null);
+  // Recorded moods not yet written to storage, by session id
+  const pendingLogRef = useRef(new Map<string, EmotionLogEntry[]>());
+  const isSummarizingRef = useRef(false);
+  const summaryAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  useEffect(() => {
+    saveLLMSettings(llmSettings);
+  }, [llmSettings]);
+
+  useEffect(() => {
+    const provider = providers[llmSettings.providerId];
+    if (!provider.checkSetup) return;
+    const controller = new AbortController();
+    provider.checkSetup(controller.signal).then(missing => {
+      if (!controller.signal.aborted) setServerMissingKeys(prev => ({ ...prev, [provider.id]: missing }));
+    });
+    return () => controller.abort();
+  }, [llmSettings.providerId]);
+
+  useEffect(() => {
+    savePersonaSettings(personaSettings);
+  }, [personaSettings]);
+
+  useEffect(() => {
+    saveVoiceSettings(voiceSettings);
+  }, [voiceSettings]);
+
+  useEffect(() => {
+    saveContextSettings(contextSettings);
+  }, [contextSettings]);
+
+  const persona = activePersona(personaSettings);
+  const historySplit = splitHistory(messages, contextSettings.historyBudget);
+  const counterMood = counterMoodFor(detectedEmotion, counterMoodOverrides);
+
+  // Cancel any in-flight reply when the chat unmounts
+  useEffect(
+    () => () => {
+      abortControllerRef.current?.abort();
+      stopSpeaking();
+    },
+    []
+  );
+
+  const refreshSessions = () =>
+    listSessions()
+      .then(setSessions)
+      .catch(err => console.error('Failed to list chat sessions:', err));
+
+  const showSession = (session: ChatSession) => {
+    loadedMessagesRef.current = session.messages;
+    setSessionInfo({
+      id: session.id,
+      title: session.title,
+      createdAt: session.createdAt,
+      memory: session.memory,
+    });
+    setMessages(session.messages);
+  };
+
+  // Resume the most recent session after a reload
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const [latest] = await listSessions();
+        const session = latest && (await loadSession(latest.id));
+        if (session) showSession(session);
+      } catch (err) {
+        console.error('Failed to restore chat session:', err);
+      }
+      setIsRestored(true);
+      refreshSessions();
+    };
+
+    restore();
+  }, []);
+
+  // Persist once a reply has finished streaming
+  useEffect(() => {
+    if (!isRestored || streamingId || messages === loadedMessagesRef.current) return;
+    if (!messages.some(m => m.sender === 'user')) return;
+
+    const title = sessionInfo.title === DEFAULT_TITLE ? deriveTitle(messages) : sessionInfo.title;
+    saveSession({ ...sessionInfo, title, updatedAt: new Date(), messages })
+      .then(refreshSessions)
+      .catch(err => console.error('Failed to save chat session:', err));
+  }, [messages, sessionInfo, streamingId, isRestored]);
+
+  // Fold turns that fell out of the history budget into the session's memory,
+  // once the reply that pushed them out has finished
+  useEffect(() => {
+    if (!isRestored || isTyping || isSummarizingRef.current) return;
+    const turns = unsummarized(splitHistory(messages, contextSettings.historyBudget).older, sessionInfo.memory);
+    if (turns.length === 0) return;
+
+    const sessionId = sessionInfo.id;
+    const remember = (memory: ConversationMemory) =>
+      setSessionInfo(prev => (prev.id === sessionId ? { ...prev, memory } : prev));
+    if (!contextSettings.summarize) {
+      remember(extendMemory(sessionInfo.memory, turns));
+      return;
+    }
+
+    // Until this succeeds the turns are still sent as they are
+    isSummarizingRef.current = true;
+    const controller = new AbortController();
+    summaryAbortRef.current = controller;
+    summarizeTurns(sessionInfo.memory, turns, llmSettings, controller.signal)
+      .then(remember)
+      .catch(err => {
+        if (!controller.signal.aborted) console.error('Failed to summarize older messages:', err);
+      })
+      .finally(() => {
+        isSummarizingRef.current = false;
+      });
+  }, [messages, isTyping, isRestored, sessionInfo.id, sessionInfo.memory, contextSettings, llmSettings]);
+
+  // A summary for a chat that is no longer shown would be thrown away anyway
+  useEffect(
+    () => () => {
+      summaryAbortRef.current?.abort();
+    },
+    [sessionInfo.id]
+  );
+
+  // Record the mood time series for the analytics dashboard
+  useEffect(() => {
+    const latest = emotionTimeline[emotionTimeline.length - 1];
+    if (!latest) return;
+    const pending = pendingLogRef.current.get(sessionInfo.id) ?? [];
+    const previous = pending[pending.length - 1];
+    if (previous && previous.emotion === latest.emotion && latest.at - previous.at < LOG_SAMPLE_MS) return;
+    pendingLogRef.current.set(sessionInfo.id, [
+      ...pending.slice(-(MAX_PENDING_LOG - 1)),
+      { at: latest.at, emotion: latest.emotion, confidence: latest.probabilities[latest.emotion] },
+    ]);
+  }, [emotionTimeline, sessionInfo.id]);
+
+  const flushEmotionLog = (sessionId: string) => {
+    const entries = pendingLogRef.current.get(sessionId) ?? [];
+    pendingLogRef.current.delete(sessionId);
+    appendEmotionLog(sessionId, entries).catch(err => console.error('Failed to save emotion log:', err));
+  };
+
+  // Only sessions that are stored get a stored log; flush when switching away too
+  const isSaved = isRestored && messages.some(m => m.sender === 'user');
+  useEffect(() => {
+    if (!isSaved) return;
+    const sessionId = sessionInfo.id;
+    const timer = setInterval(() => flushEmotionLog(sessionId), LOG_FLUSH_MS);
+    return () => {
+      clearInterval(timer);
+      flushEmotionLog(sessionId);
+    };
+  }, [isSaved, sessionInfo.id]);
+
+  // Runs after the flush above, so only samples of a chat that was never
+  // saved are dropped when switching away from it
+  useEffect(() => {
+    const sessionId = sessionInfo.id;
+    const pendingLog = pendingLogRef.current;
+    return () => {
+      pendingLog.delete(sessionId);
+    };
+  }, [sessionInfo.id]);
+
+  const handleShowDashboard = async () => {
+    let stored: EmotionLogEntry[] = [];
+    try {
+      stored = await loadEmotionLog(sessionInfo.id);
+    } catch (err) {
+      console.error('Failed to load emotion log:', err);
+    }
+    setDashboardLog([...stored, ...(pendingLogRef.current.get(sessionInfo.id) ?? [])]);
+  };
+
+  const handleNewSession = () => {
+    abortControllerRef.current?.abort();
+    loadedMessagesRef.current = null;
+    setSessionInfo(createSessionInfo());
+    setMessages([createGreeting()]);
+    setShowHistory(false);
+  };
+
+  const handleSelectSession = async (id: string) => {
+    abortControllerRef.current?.abort();
+    try {
+      const session = await loadSession(id);
+      if (session) showSession(session);
+    } catch (err) {
+      console.error('Failed to load chat session:', err);
+    }
+    setShowHistory(false);
+  };
+
+  const handleRenameSession = async (id: string, title: string) => {
+    if (id === sessionInfo.id) setSessionInfo(prev => ({ ...prev, title }));
+    try {
+      await renameSession(id, title);
+    } catch (err) {
+      console.error('Failed to rename chat session:', err);
+    }
+    refreshSessions();
+  };
+
+  const handleExport = (format: TranscriptFormat) => {
+    const title = sessionInfo.title === DEFAULT_TITLE ? deriveTitle(messages) : sessionInfo.title;
+    downloadTranscript({ ...sessionInfo, title, updatedAt: new Date(), messages }, format);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const session = importJSON(await file.text());
+      await saveSession(session);
+      abortControllerRef.current?.abort();
+      showSession(session);
+      setNotice(`Imported "${session.title}"`);
+      refreshSessions();
+    } catch (err) {
+      const reason = err instanceof TranscriptImportError ? err.message : 'Could not save the imported chat';
+      console.error('Failed to import transcript:', err);
+      setNotice(`Import failed: ${reason}`);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (err) {
+      console.error('Failed to delete chat session:', err);
+    }
+    pendingLogRef.current.delete(id);
+    if (id === sessionInfo.id) handleNewSession();
+    refreshSessions();
+  };
+
   // Helper to convert messages to API format
-  const getHistoryForAPI = () =>
-    messages.map(m => ({
+  // Newest turns that fit in the history budget; older ones reach the model
+  // through the session's memory once they have been summarised
+  const getHistoryForAPI = (upTo = messages) =>
+    historyToSend(upTo, contextSettings.historyBudget, sessionInfo.memory).map(m => ({
       role: m.sender,
       content: m.text,
     }));
 
-  const handleSendMessage = async () => {
-    if (!inputText.trim()) return;
+  // One reply at a time: a second stream would take over the Stop button
+  const handleSendMessage = async (text = inputText) => {
+    if (!text.trim() || isTyping) return;
+
+    const sentAt = Date.now();
+    const startedAt = typingStartedAtRef.current ?? sentAt - 5000;
+    const latestSample = emotionTimeline[emotionTimeline.length - 1];
+    const expressions = latestSample?.probabilities;
+    const moodSummary = summarizeTimeline(emotionTimeline, startedAt, sentAt);
+    const sentiment = analyzeSentiment(text);
+    const mismatch = mismatchScore(sentiment.score, detectedEmotion, emotionConfidence);
+    typingStartedAtRef.current = null;
 
     const userMessage: Message = {
       id: crypto.randomUUID(),
-      text: inputText,
+      text,
       sender: 'user',
-      timestamp: new Date(),
+      timestamp: new Date(sentAt),
+      expressions,
+      moodSummary,
+      sentiment: sentiment.score,
+      mismatch,
     };
 
     // Add user message immediately
     setMessages(prev => [...prev, userMessage]);
     setInputText('');
+
+    // Pass full history including new user message
+    await replyTo(userMessage, getHistoryForAPI([...messages, userMessage]));
+  };
+
+  // Asks for the bot's answer to a user message, when sent or retried
+  const replyTo = (message: Message, history: { role: 'user' | 'bot'; content: string }[]) =>
+    streamBotReply(
+      history,
+      {
+        emotion: detectedEmotion,
+        expressions: message.expressions,
+        moodSummary: message.moodSummary,
+        counterMood,
+        group: group ?? undefined,
+        mismatch: message.mismatch !== undefined
+          ? { score: message.mismatch, sentiment: analyzeSentiment(message.text).label }
+          : undefined,
+        game: game ?? undefined,
+        memory: sessionInfo.memory,
+      },
+      { replyToId: message.id }
+    );
+
+  const handleRetry = (message: Message) => {
+    if (isTyping) return;
+    const upTo = messages.slice(0, messages.findIndex(m => m.id === message.id) + 1);
+    setMessages(prev => prev.map(m => (m.id === message.id ? { ...m, error: undefined } : m)));
+    replyTo(message, getHistoryForAPI(upTo));
+  };
+
+  // Streams a bot reply into the chat, for sent messages and interjections alike
+  const streamBotReply = async (
+    history: { role: 'user' | 'bot'; content: string }[],
+    emotionContext: EmotionContext,
+    { botFields = {}, replyToId }: { botFields?: Partial<Message>; replyToId?: string } = {}
+  ) => {
     setIsTyping(true);
 
-    try {
-      // Pass full history including new user message
-      const botReplyText = await getAIBotReply(
-        [...getHistoryForAPI(), { role: 'user', content: inputText }],
-        detectedEmotion
+    const botId = crypto.randomUUID();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // Adds the bot bubble on the first streamed chunk, then updates it in place
+    const showBotText = (text: string) => {
+      if (!text) return;
+      setStreamingId(botId);
+      setMessages(prev =>
+        prev.some(m => m.id === botId)
+          ? prev.map(m => (m.id === botId ? { ...m, text } : m))
+          : [
+              ...prev,
+              {
+                id: botId,
+                text,
+                sender: 'bot',
+                timestamp: new Date(),
+                emotion: detectedEmotion,
+                model: llmSettings.model,
+                ...botFields,
+              },
+            ]
       );
+    };
 
-      const botResponse: Message = {
-        id: crypto.randomUUID(),
-        text: botReplyText,
-        sender: 'bot',
-        timestamp: new Date(),
-        emotion: detectedEmotion,
-      };
-
-      setMessages(prev => [...prev, botResponse]);
-    } catch (error) {
-      const botResponse: Message = {
-        id: crypto.randomUUID(),
-        text: "Oops! The mood spoiling AI is having a bad day. Try again later.",
-        sender: 'bot',
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, botResponse]);
+    try {
+      const botReplyText = await getAIBotReply(history, emotionContext, llmSettings, {
+        signal: controller.signal,
+        onPartial: showBotText,
+        onRetry: (error, _attempt, delayMs) =>
+          setNotice(`${error.message} Retrying in ${Math.ceil(delayMs / 1000)}s…`),
+        persona: { template: persona.template, userName: personaSettings.userName },
+      });
+
+      setNotice(null);
+      showBotText(botReplyText);
+      if (voiceSettings.speakReplies) speak(botReplyText, counterMood, voiceSettings.voiceURI);
+    } catch (err) {
+      // Stopped by the user: keep whatever was streamed so far. Otherwise drop
+      // the half-written reply and let the user retry the message.
+      if (!controller.signal.aborted) {
+        console.error('Failed to get bot reply:', err);
+        if (err instanceof MissingTokenError) {
+          setServerMissingKeys(prev => ({ ...prev, [llmSettings.providerId]: err.envVar }));
+        }
+        const reason =
+          err instanceof LLMError || err instanceof PrivacyError ? err.message : 'Something went wrong.';
+        setNotice(replyToId ? null : `The bot couldn't butt in: ${reason}`);
+        setMessages(prev =>
+          prev
+            .filter(m => m.id !== botId)
+            .map(m => (m.id === replyToId ? { ...m, error: reason } : m))
+        );
+      }
     }
 
+    abortControllerRef.current = null;
+    setStreamingId(null);
     setIsTyping(false);
   };
 
+  // Unprompted spoiler for a mood change App noticed; skipped while the user
+  // is typing or a reply is already on its way
+  const handleInterjection = (change: Interjection) => {
+    if (isTyping || inputText.trim()) return;
+    streamBotReply(
+      [...getHistoryForAPI(), { role: 'user', content: interjectionCue(change) }],
+      {
+        emotion: change.to,
+        expressions: emotionTimeline[emotionTimeline.length - 1]?.probabilities,
+        counterMood,
+        group: group ?? undefined,
+        interjection: change,
+        memory: sessionInfo.memory,
+      },
+      { botFields: { emotion: change.to, interjection: true } }
+    );
+  };
+  const handleInterjectionRef = useRef(handleInterjection);
+  handleInterjectionRef.current = handleInterjection;
+
+  useEffect(() => {
+    if (interjection) handleInterjectionRef.current(interjection);
+  }, [interjection]);
+
+  // Mid-round jab at the mood the user is trying to hold, skipped like
+  // interjections while the user is busy
+  const handleGameJab = (round: GameRound) => {
+    if (isTyping || inputText.trim()) return;
+    streamBotReply(
+      [...getHistoryForAPI(), { role: 'user', content: gameJabCue(round) }],
+      {
+        emotion: detectedEmotion,
+        expressions: emotionTimeline[emotionTimeline.length - 1]?.probabilities,
+        counterMood,
+        group: group ?? undefined,
+        game: round,
+        memory: sessionInfo.memory,
+      },
+      { botFields: { interjection: true } }
+    );
+  };
+  const handleGameJabRef = useRef(handleGameJab);
+  handleGameJabRef.current = handleGameJab;
+
+  useEffect(() => {
+    if (!game) return;
+    const timer = setInterval(() => handleGameJabRef.current(game), DIFFICULTIES[game.difficulty].jabEveryMs);
+    return () => clearInterval(timer);
+  }, [game]);
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+    stopSpeaking();
+  };
+
+  // Speech finishes transcribing after the button is released, so a reply may
+  // have started meanwhile; keep the words in the input rather than lose them
+  const handleTranscript = (text: string) => {
+    if (isTyping) {
+      setInputText(text);
+      return;
+    }
+    stopSpeaking();
+    handleSendMessage(text);
+  };
+  const handleTranscriptRef = useRef(handleTranscript);
+  handleTranscriptRef.current = handleTranscript;
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -128,31 +670,130 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ detectedEmotion }) => {
   };
 
   return (
-    <div className="flex flex-col h-[700px] max-h-[90vh] bg-gray-900 rounded-2xl border border-gray-700 overflow-hidden">
+    <div className="relative flex flex-col h-[700px] max-h-[90vh] bg-gray-900 rounded-2xl border border-gray-700 overflow-hidden">
+      {showHistory && (
+        <SessionSidebar
+          sessions={sessions}
+          currentSessionId={sessionInfo.id}
+          onSelect={handleSelectSession}
+          onNew={handleNewSession}
+          onRename={handleRenameSession}
+          onDelete={handleDeleteSession}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showPersonaEditor && (
+        <PersonaEditor
+          settings={personaSettings}
+          onChange={setPersonaSettings}
+          previewContext={{
+            emotion: detectedEmotion,
+            expressions: emotionTimeline[emotionTimeline.length - 1]?.probabilities,
+            counterMood,
+          }}
+          onClose={() => setShowPersonaEditor(false)}
+        />
+      )}
+
+      {needsProviderSetup(withMissingApiKey(providers[llmSettings.providerId], serverMissingKeys), strictLocal) && (
+        <ProviderSetupScreen
+          settings={llmSettings}
+          onChange={setLLMSettings}
+          strictLocal={strictLocal}
+          missingApiKeys={serverMissingKeys}
+        />
+      )}
+
+      {dashboardLog && (
+        <MoodDashboard
+          title={sessionInfo.title === DEFAULT_TITLE ? deriveTitle(messages) : sessionInfo.title}
+          log={dashboardLog}
+          messages={messages}
+          onClose={() => setDashboardLog(null)}
+        />
+      )}
+
+      {showMoodMapping && (
+        <MoodMappingEditor
+          overrides={counterMoodOverrides}
+          onChange={onCounterMoodOverridesChange}
+          onClose={() => setShowMoodMapping(false)}
+        />
+      )}
+
       {/* Header */}
       <div className="flex items-center justify-between p-4 bg-gray-800 border-b border-gray-700">
         <div className="flex items-center space-x-3">
-          <div className="w-10 h-10 bg-gradient-to-r from-emerald-500 to-teal-500 rounded-full flex items-center justify-center">
+          <button
+            onClick={() => setShowHistory(prev => !prev)}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700"
+            aria-label="Chat history"
+          >
+            <History className="w-5 h-5" />
+          </button>
+          <TranscriptMenu onExport={handleExport} onImport={handleImport} />
+          <VoiceSettingsMenu settings={voiceSettings} onChange={setVoiceSettings} />
+          <ContextSettingsMenu
+            settings={contextSettings}
+            onChange={setContextSettings}
+            historyTokens={historySplit.recentTokens}
+            olderCount={historySplit.older.length}
+            memory={sessionInfo.memory}
+          />
+          <button
+            onClick={handleShowDashboard}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700"
+            aria-label="Mood analytics"
+          >
+            <LineChart className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowPersonaEditor(true)}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700"
+            aria-label="Edit bot persona"
+          >
+            <Drama className="w-5 h-5" />
+          </button>
+          <div className="w-10 h-10 theme-accent-bg rounded-full flex items-center justify-center">
             <Bot className="w-6 h-6 text-white" />
           </div>
           <div>
             <h3 className="text-white font-semibold">Mood Spoiler Bot</h3>
-            <p className="text-gray-400 text-sm">Always gives opposite vibes</p>
+            <p className="text-gray-400 text-sm">{persona.name} · always gives opposite vibes</p>
           </div>
         </div>
-        <div className="text-emerald-400 text-sm">
-          Current mood:{' '}
-          <span className="capitalize font-medium">{detectedEmotion}</span>
+        <div className="flex flex-col items-end space-y-2">
+          <button
+            onClick={() => setShowMoodMapping(true)}
+            className="text-emerald-400 text-sm hover:text-emerald-300"
+            title="Edit counter-mood mapping"
+          >
+            {group && group.faces.length > 1 ? `Room of ${group.faces.length}` : 'You'}:{' '}
+            <span className="capitalize font-medium">{detectedEmotion}</span>
+            {emotionConfidence !== undefined && (
+              <span className="text-gray-400 text-xs"> ({Math.round(emotionConfidence * 100)}%)</span>
+            )}
+            <span className="text-gray-500"> → </span>
+            Bot: <span className="font-medium text-amber-400">{counterMood.label}</span>
+          </button>
+          <ProviderPicker settings={llmSettings} onChange={setLLMSettings} />
         </div>
       </div>
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 min-h-0">
-        {messages.map((message) => (
-          <MessageBubble key={message.id} message={message} />
+        {messages.map((message, i) => (
+          <MessageBubble
+            key={message.id}
+            message={message}
+            isStreaming={message.id === streamingId}
+            // Only the latest message can be retried, so replies stay in order
+            onRetry={message.error && i === messages.length - 1 && !isTyping ? () => handleRetry(message) : undefined}
+          />
         ))}
 
-        {isTyping && (
+        {isTyping && !streamingId && (
           <div className="flex justify-start animate-pulse">
             <div className="bg-gray-800 border border-gray-700 rounded-2xl rounded-bl-sm px-4 py-3 backdrop-blur-sm">
               <div className="flex items-center space-x-2">
@@ -179,23 +820,52 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ detectedEmotion }) => {
 
       {/* Input */}
       <div className="p-4 bg-gray-800 border-t border-gray-700 flex-shrink-0">
+        {notice && (
+          <button
+            onClick={() => setNotice(null)}
+            className="w-full text-left text-xs text-amber-300 mb-2"
+            aria-label="Dismiss notice"
+          >
+            {notice}
+          </button>
+        )}
         <div className="flex space-x-3">
           <input
             type="text"
             value={inputText}
-            onChange={(e) => setInputText(e.target.value)}
+            onChange={(e) => {
+              if (!inputText && e.target.value) typingStartedAtRef.current = Date.now();
+              setInputText(e.target.value);
+            }}
             onKeyDown={handleKeyDown}
             placeholder="Type your message..."
             className="flex-1 bg-gray-700 text-white rounded-xl px-4 py-3 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
           />
-          <button
-            onClick={handleSendMessage}
-            disabled={!inputText.trim()}
-            className="bg-emerald-500 hover:bg-emerald-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-xl px-4 py-3 transition-all transform hover:scale-105 active:scale-95"
-            aria-label="Send message"
-          >
-            <Send className="w-5 h-5" />
-          </button>
+          <PushToTalkButton
+            recognizer={voiceSettings.recognizer}
+            disabled={isTyping}
+            onInterim={setInputText}
+            onTranscript={(text) => handleTranscriptRef.current(text)}
+            onError={setNotice}
+          />
+          {isTyping ? (
+            <button
+              onClick={handleStop}
+              className="bg-red-500 hover:bg-red-600 text-white rounded-xl px-4 py-3 transition-all transform hover:scale-105 active:scale-95"
+              aria-label="Stop reply"
+            >
+              <Square className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              onClick={() => handleSendMessage()}
+              disabled={!inputText.trim()}
+              className="bg-emerald-500 hover:bg-emerald-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-xl px-4 py-3 transition-all transform hover:scale-105 active:scale-95"
+              aria-label="Send message"
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          )}
         </div>
       </div>
     </div>
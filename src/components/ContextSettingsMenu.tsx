@@ -0,0 +1,88 @@
+// src/components/ContextSettingsMenu.tsx
+
+import React, { useState } from 'react';
+import { Brain } from 'lucide-react';
+import { ConversationMemory } from '../types/chat';
+import { BUDGET_OPTIONS, ContextSettings, describeMoodHistory } from '../utils/contextWindow';
+
+interface ContextSettingsMenuProps {
+  settings: ContextSettings;
+  onChange: (settings: ContextSettings) => void;
+  // Estimated tokens of history the next request would send
+  historyTokens: number;
+  // Turns left out of the request, summarised or not
+  olderCount: number;
+  memory?: ConversationMemory;
+}
+
+const selectClassName =
+  'w-full bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const ContextSettingsMenu: React.FC<ContextSettingsMenuProps> = ({
+  settings,
+  onChange,
+  historyTokens,
+  olderCount,
+  memory,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (patch: Partial<ContextSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`p-2 rounded-lg hover:bg-gray-700 ${memory ? 'text-emerald-400' : 'text-gray-400 hover:text-white'}`}
+        aria-label="Conversation memory"
+        aria-expanded={isOpen}
+      >
+        <Brain className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 z-30 w-72 bg-gray-800 border border-gray-700 rounded-xl shadow-lg p-3 space-y-3 animate-fadeInUp">
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Chat history sent with each message</span>
+            <select
+              value={settings.historyBudget}
+              onChange={(e) => update({ historyBudget: Number(e.target.value) })}
+              className={selectClassName}
+            >
+              {BUDGET_OPTIONS.map(tokens => (
+                <option key={tokens} value={tokens}>~{tokens.toLocaleString()} tokens</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center space-x-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.summarize}
+              onChange={(e) => update({ summarize: e.target.checked })}
+              className="accent-emerald-500"
+            />
+            <span>Summarise older messages into the bot's memory</span>
+          </label>
+
+          <p className="text-xs text-gray-500">
+            Sending ~{historyTokens.toLocaleString()} tokens of history
+            {olderCount > 0 && `; ${olderCount} older message${olderCount === 1 ? '' : 's'} left out`}.
+          </p>
+
+          {memory && (
+            <div className="space-y-1 text-xs">
+              <span className="text-gray-400">What the bot remembers</span>
+              <p className="text-gray-300 max-h-32 overflow-y-auto whitespace-pre-wrap">
+                {memory.summary || 'No summary yet.'}
+              </p>
+              <p className="text-gray-500">Moods: {describeMoodHistory(memory.moods)}</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContextSettingsMenu;
@@ -0,0 +1,41 @@
+// src/components/GameHud.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Target } from 'lucide-react';
+import { GameProgress, GameRound } from '../utils/game';
+
+interface GameHudProps {
+  round: GameRound;
+  progress: GameProgress | null;
+}
+
+// Countdown and live score while a round is running
+const GameHud: React.FC<GameHudProps> = ({ round, progress }) => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const secondsLeft = Math.max(0, Math.ceil((round.startedAt + round.durationMs - now) / 1000));
+  const onTarget = progress?.onTarget ?? false;
+
+  return (
+    <div
+      className={`flex items-center space-x-3 px-3 py-1.5 rounded-lg border text-xs ${
+        onTarget
+          ? 'bg-emerald-500/20 border-emerald-500/50 text-emerald-200'
+          : 'bg-red-500/20 border-red-500/50 text-red-200'
+      }`}
+      role="status"
+    >
+      <Target className="w-4 h-4" />
+      <span className="capitalize">Stay {round.target}</span>
+      <span>{secondsLeft}s</span>
+      <span className="font-semibold">{progress?.score ?? 0} pts</span>
+    </div>
+  );
+};
+
+export default GameHud;
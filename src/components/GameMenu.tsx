@@ -0,0 +1,129 @@
+// src/components/GameMenu.tsx
+
+import React, { useState } from 'react';
+import { Gamepad2, Square } from 'lucide-react';
+import { EMOTIONS, isEmotion } from '../utils/emotions';
+import { Difficulty, DIFFICULTIES, GameRound, GameSettings, RoundSummary, ROUND_MS } from '../utils/game';
+import Leaderboard from './Leaderboard';
+
+interface GameMenuProps {
+  settings: GameSettings;
+  onChange: (settings: GameSettings) => void;
+  round: GameRound | null;
+  onStart: () => void;
+  onStop: () => void;
+  leaderboard: RoundSummary[];
+}
+
+const selectClassName =
+  'w-full bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const GameMenu: React.FC<GameMenuProps> = ({ settings, onChange, round, onStart, onStop, leaderboard }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (patch: Partial<GameSettings>) => onChange({ ...settings, ...patch });
+
+  if (round) {
+    return (
+      <button
+        onClick={onStop}
+        className="flex items-center space-x-2 px-3 py-2 rounded-lg bg-red-500/20 text-red-300 hover:bg-red-500/30 text-xs"
+        title="End the round without scoring it"
+      >
+        <Square className="w-4 h-4" />
+        <span>Quit round</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700"
+        aria-label="Game mode"
+        aria-expanded={isOpen}
+      >
+        <Gamepad2 className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-72 bg-gray-800 border border-gray-700 rounded-xl shadow-lg p-3 space-y-3 animate-fadeInUp">
+          <div>
+            <p className="text-sm font-medium text-white">Don't let the bot spoil it</p>
+            <p className="text-xs text-gray-400">
+              Hold your mood for {ROUND_MS / 1000} s while the bot tries to break it. Every second on target
+              scores.
+            </p>
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Player</span>
+            <input
+              type="text"
+              value={settings.player}
+              onChange={(e) => update({ player: e.target.value })}
+              placeholder="Anonymous"
+              maxLength={24}
+              className={selectClassName}
+            />
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Stay</span>
+            <select
+              value={settings.target}
+              onChange={(e) => isEmotion(e.target.value) && update({ target: e.target.value })}
+              className={`${selectClassName} capitalize`}
+            >
+              {EMOTIONS.map(emotion => (
+                <option key={emotion} value={emotion}>{emotion}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="space-y-1">
+            <span className="text-xs text-gray-400">Difficulty</span>
+            <div className="grid grid-cols-3 gap-1">
+              {(Object.keys(DIFFICULTIES) as Difficulty[]).map(difficulty => (
+                <button
+                  key={difficulty}
+                  onClick={() => update({ difficulty })}
+                  className={`px-2 py-1 rounded-lg text-xs ${
+                    settings.difficulty === difficulty
+                      ? 'bg-emerald-500 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                  aria-pressed={settings.difficulty === difficulty}
+                >
+                  {DIFFICULTIES[difficulty].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              The bot jabs every {DIFFICULTIES[settings.difficulty].jabEveryMs / 1000} s; points ×
+              {DIFFICULTIES[settings.difficulty].multiplier}.
+            </p>
+          </div>
+
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              onStart();
+            }}
+            className="w-full px-3 py-2 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-medium"
+          >
+            Start round
+          </button>
+
+          <div className="space-y-1">
+            <span className="text-xs text-gray-400">Top scores</span>
+            <Leaderboard entries={leaderboard} limit={5} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GameMenu;
@@ -0,0 +1,55 @@
+// src/components/InputSourcePicker.tsx
+
+import React, { useRef } from 'react';
+import { Camera, Film, Image, Monitor } from 'lucide-react';
+import { InputSource, InputSourceKind, supportsScreenShare } from '../utils/inputSources';
+
+interface InputSourcePickerProps {
+  source: InputSource;
+  onChange: (source: InputSource) => void;
+}
+
+const InputSourcePicker: React.FC<InputSourcePickerProps> = ({ source, onChange }) => {
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (kind: 'video' | 'image') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onChange({ kind, file });
+    // Allow picking the same file again after switching away
+    e.target.value = '';
+  };
+
+  const options: { kind: InputSourceKind; label: string; icon: typeof Camera; onClick: () => void }[] = [
+    { kind: 'webcam', label: 'Webcam', icon: Camera, onClick: () => onChange({ kind: 'webcam' }) },
+    ...(supportsScreenShare()
+      ? [{ kind: 'screen' as const, label: 'Share screen', icon: Monitor, onClick: () => onChange({ kind: 'screen' }) }]
+      : []),
+    { kind: 'video', label: 'Video file', icon: Film, onClick: () => videoInputRef.current?.click() },
+    { kind: 'image', label: 'Image file', icon: Image, onClick: () => imageInputRef.current?.click() },
+  ];
+
+  return (
+    <div className="flex items-center space-x-1 bg-black/50 backdrop-blur-sm rounded-lg p-1 border border-gray-600">
+      {options.map(({ kind, label, icon: Icon, onClick }) => (
+        <button
+          key={kind}
+          onClick={onClick}
+          className={`p-1.5 rounded-md ${
+            source.kind === kind ? 'bg-emerald-500/30 text-emerald-200' : 'text-gray-300 hover:text-white hover:bg-gray-700'
+          }`}
+          title={label}
+          aria-label={label}
+          aria-pressed={source.kind === kind}
+        >
+          <Icon className="w-4 h-4" />
+        </button>
+      ))}
+
+      <input ref={videoInputRef} type="file" accept="video/*" onChange={handleFile('video')} className="hidden" />
+      <input ref={imageInputRef} type="file" accept="image/*" onChange={handleFile('image')} className="hidden" />
+    </div>
+  );
+};
+
+export default InputSourcePicker;
@@ -0,0 +1,107 @@
+// src/components/InterjectionSettingsMenu.tsx
+
+import React, { useState } from 'react';
+import { Megaphone, MegaphoneOff } from 'lucide-react';
+import { EMOTIONS } from '../utils/emotions';
+import {
+  COOLDOWN_OPTIONS,
+  HOLD_OPTIONS,
+  InterjectionSettings,
+} from '../utils/interjections';
+
+interface InterjectionSettingsMenuProps {
+  settings: InterjectionSettings;
+  onChange: (settings: InterjectionSettings) => void;
+}
+
+const selectClassName =
+  'w-full bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const seconds = (ms: number) => `${ms / 1000} s`;
+
+const InterjectionSettingsMenu: React.FC<InterjectionSettingsMenuProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (patch: Partial<InterjectionSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`p-2 rounded-lg hover:bg-gray-700 ${
+          settings.enabled ? 'text-amber-400' : 'text-gray-400 hover:text-white'
+        }`}
+        aria-label="Interjection settings"
+        aria-expanded={isOpen}
+      >
+        {settings.enabled ? <Megaphone className="w-5 h-5" /> : <MegaphoneOff className="w-5 h-5" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-64 bg-gray-800 border border-gray-700 rounded-xl shadow-lg p-3 space-y-3 animate-fadeInUp">
+          <label className="flex items-center space-x-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="accent-emerald-500"
+            />
+            <span>Let the bot butt in when your mood changes</span>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">New mood must hold for</span>
+            <select
+              value={settings.holdMs}
+              onChange={(e) => update({ holdMs: Number(e.target.value) })}
+              className={selectClassName}
+            >
+              {HOLD_OPTIONS.map(ms => (
+                <option key={ms} value={ms}>{seconds(ms)}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Wait between interjections</span>
+            <select
+              value={settings.cooldownMs}
+              onChange={(e) => update({ cooldownMs: Number(e.target.value) })}
+              className={selectClassName}
+            >
+              {COOLDOWN_OPTIONS.map(ms => (
+                <option key={ms} value={ms}>{seconds(ms)}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="space-y-1">
+            <span className="text-xs text-gray-400">React when you turn</span>
+            <div className="grid grid-cols-2 gap-1">
+              {EMOTIONS.map(emotion => (
+                <label key={emotion} className="flex items-center space-x-2 text-xs text-gray-300 capitalize">
+                  <input
+                    type="checkbox"
+                    checked={settings.triggers[emotion]}
+                    onChange={(e) =>
+                      update({ triggers: { ...settings.triggers, [emotion]: e.target.checked } })
+                    }
+                    className="accent-emerald-500"
+                  />
+                  <span>{emotion}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            At most {settings.maxPerWindow} every {Math.round(settings.windowMs / 60000)} min, and the same
+            mood at most once every {seconds(settings.emotionCooldownMs)}.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InterjectionSettingsMenu;
@@ -0,0 +1,40 @@
+// src/components/Leaderboard.tsx
+
+import React from 'react';
+import { DIFFICULTIES, RoundSummary } from '../utils/game';
+
+interface LeaderboardProps {
+  entries: RoundSummary[];
+  // Round to highlight, e.g. the one that just ended
+  highlightId?: string;
+  limit?: number;
+}
+
+const Leaderboard: React.FC<LeaderboardProps> = ({ entries, highlightId, limit = entries.length }) => {
+  if (entries.length === 0) {
+    return <p className="text-xs text-gray-500">No rounds played yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-1">
+      {entries.slice(0, limit).map((entry, i) => (
+        <li
+          key={entry.id}
+          className={`flex items-center justify-between text-xs rounded-lg px-2 py-1 ${
+            entry.id === highlightId ? 'bg-emerald-500/20 text-emerald-200' : 'text-gray-300'
+          }`}
+        >
+          <span className="truncate">
+            {i + 1}. {entry.player}
+            <span className="text-gray-500">
+              {' '}· {entry.target} · {DIFFICULTIES[entry.difficulty].label}
+            </span>
+          </span>
+          <span className="font-semibold ml-2">{entry.score}</span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,179 @@
+// src/components/MoodDashboard.tsx
+
+import React from 'react';
+import { Download, X } from 'lucide-react';
+import { EmotionLogEntry, Message } from '../types/chat';
+import { Emotion, EMOTIONS } from '../utils/emotions';
+import { botWins, mismatchCounts, timePerEmotion, toCSV, toSegments } from '../utils/moodAnalytics';
+import { downloadFile, fileSlug } from '../utils/transcript';
+
+interface MoodDashboardProps {
+  title: string;
+  log: EmotionLogEntry[];
+  messages: Message[];
+  onClose: () => void;
+}
+
+// Same hues as the emotion badge on the webcam feed
+const EMOTION_COLORS: Record<Emotion, string> = {
+  angry: '#f87171',
+  disgusted: '#f472b6',
+  fearful: '#4ade80',
+  happy: '#facc15',
+  neutral: '#9ca3af',
+  sad: '#60a5fa',
+  surprised: '#c084fc',
+};
+
+const CHART_WIDTH = 1000;
+const LANE_HEIGHT = 14;
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const percent = (part: number, whole: number) => (whole ? `${Math.round((part / whole) * 100)}%` : '–');
+
+const MoodDashboard: React.FC<MoodDashboardProps> = ({ title, log, messages, onClose }) => {
+  const segments = toSegments(log);
+  const totals = timePerEmotion(log);
+  const tracked = EMOTIONS.reduce((sum, e) => sum + totals[e], 0);
+  const score = botWins(messages, log);
+  const mismatches = mismatchCounts(messages);
+
+  const start = log[0]?.at ?? 0;
+  const span = Math.max(1, (segments[segments.length - 1]?.end ?? start) - start);
+  const x = (at: number) => ((at - start) / span) * CHART_WIDTH;
+  const replies = messages.filter(
+    m => m.sender === 'bot' && m.emotion && m.timestamp.getTime() >= start && m.timestamp.getTime() <= start + span
+  );
+
+  const handleDownload = () =>
+    downloadFile(toCSV(log), `mood-spoiler-${fileSlug(title)}-moods.csv`, 'text/csv');
+
+  return (
+    <div className="absolute inset-0 z-30 flex flex-col bg-gray-900/95 backdrop-blur-sm animate-fadeInUp">
+      <div className="flex items-center justify-between p-4 border-b border-gray-700">
+        <div>
+          <h4 className="text-white font-semibold">Mood analytics</h4>
+          <p className="text-gray-400 text-xs">Is the spoiling working? Recorded for “{title}”</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleDownload}
+            disabled={log.length === 0}
+            className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Download CSV"
+            title="Download the mood time series as CSV"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700"
+            aria-label="Close analytics"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5">
+        <div className="grid grid-cols-3 gap-2">
+          <div className="bg-gray-800 border border-gray-700 rounded-xl p-3">
+            <p className="text-xs text-gray-400">Tracked</p>
+            <p className="text-lg font-semibold text-white">{formatDuration(tracked)}</p>
+          </div>
+          <div className="bg-gray-800 border border-gray-700 rounded-xl p-3">
+            <p className="text-xs text-gray-400">Bot wins</p>
+            <p className="text-lg font-semibold text-emerald-400">
+              {score.wins}/{score.replies}{' '}
+              <span className="text-xs text-gray-400">{percent(score.wins, score.replies)}</span>
+            </p>
+          </div>
+          <div className="bg-gray-800 border border-gray-700 rounded-xl p-3">
+            <p className="text-xs text-gray-400">Words ≠ face</p>
+            <p className="text-lg font-semibold text-amber-400">
+              {mismatches.flagged}/{mismatches.scored}{' '}
+              <span className="text-xs text-gray-400">{percent(mismatches.flagged, mismatches.scored)}</span>
+            </p>
+          </div>
+        </div>
+
+        {log.length === 0 ? (
+          <p className="text-gray-500 text-sm text-center py-8">
+            No moods recorded for this chat yet. Turn on the camera and start talking.
+          </p>
+        ) : (
+          <>
+            <section className="space-y-2">
+              <h5 className="text-sm font-medium text-gray-300">Timeline</h5>
+              <div className="flex">
+                <div className="flex flex-col text-[10px] text-gray-400 capitalize pr-2">
+                  {EMOTIONS.map(e => (
+                    <span key={e} style={{ height: LANE_HEIGHT, lineHeight: `${LANE_HEIGHT}px` }}>{e}</span>
+                  ))}
+                </div>
+                <svg
+                  viewBox={`0 0 ${CHART_WIDTH} ${EMOTIONS.length * LANE_HEIGHT}`}
+                  preserveAspectRatio="none"
+                  className="flex-1 bg-gray-800 rounded"
+                  style={{ height: EMOTIONS.length * LANE_HEIGHT }}
+                  role="img"
+                  aria-label="Mood timeline"
+                >
+                  {segments.map(s => (
+                    <rect
+                      key={`${s.emotion}-${s.start}`}
+                      x={x(s.start)}
+                      y={EMOTIONS.indexOf(s.emotion) * LANE_HEIGHT + 2}
+                      width={Math.max(2, x(s.end) - x(s.start))}
+                      height={LANE_HEIGHT - 4}
+                      fill={EMOTION_COLORS[s.emotion]}
+                    />
+                  ))}
+                  {replies.map(m => (
+                    <line
+                      key={m.id}
+                      x1={x(m.timestamp.getTime())}
+                      x2={x(m.timestamp.getTime())}
+                      y1={0}
+                      y2={EMOTIONS.length * LANE_HEIGHT}
+                      stroke="#34d399"
+                      strokeDasharray="4 3"
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  ))}
+                </svg>
+              </div>
+              <p className="text-xs text-gray-500">Dashed lines mark the bot's replies.</p>
+            </section>
+
+            <section className="space-y-2">
+              <h5 className="text-sm font-medium text-gray-300">Time per emotion</h5>
+              {EMOTIONS.filter(e => totals[e] > 0)
+                .sort((a, b) => totals[b] - totals[a])
+                .map(e => (
+                  <div key={e} className="flex items-center space-x-2 text-xs">
+                    <span className="w-16 text-gray-300 capitalize">{e}</span>
+                    <div className="flex-1 h-2 bg-gray-800 rounded-full overflow-hidden">
+                      <div
+                        className="h-full rounded-full"
+                        style={{ width: percent(totals[e], tracked), backgroundColor: EMOTION_COLORS[e] }}
+                      />
+                    </div>
+                    <span className="w-20 text-right text-gray-400">
+                      {formatDuration(totals[e])} · {percent(totals[e], tracked)}
+                    </span>
+                  </div>
+                ))}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MoodDashboard;
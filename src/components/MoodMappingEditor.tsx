@@ -0,0 +1,110 @@
+// src/components/MoodMappingEditor.tsx
+
+import React from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { EMOTIONS, Emotion } from '../utils/emotions';
+import {
+  COUNTER_INTENSITIES,
+  CounterIntensity,
+  CounterMood,
+  CounterMoodOverrides,
+  DEFAULT_COUNTER_MOODS,
+  resolveCounterMoods,
+} from '../utils/moodMapping';
+
+interface MoodMappingEditorProps {
+  overrides: CounterMoodOverrides;
+  onChange: (overrides: CounterMoodOverrides) => void;
+  onClose: () => void;
+}
+
+const MoodMappingEditor: React.FC<MoodMappingEditorProps> = ({ overrides, onChange, onClose }) => {
+  const mapping = resolveCounterMoods(overrides);
+
+  const update = (emotion: Emotion, patch: Partial<CounterMood>) => {
+    onChange({ ...overrides, [emotion]: { ...overrides[emotion], ...patch } });
+  };
+
+  const reset = (emotion: Emotion) => {
+    const rest = { ...overrides };
+    delete rest[emotion];
+    onChange(rest);
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex flex-col bg-gray-900/95 backdrop-blur-sm animate-fadeInUp">
+      <div className="flex items-center justify-between p-4 border-b border-gray-700">
+        <div>
+          <h4 className="text-white font-semibold">Counter-mood mapping</h4>
+          <p className="text-gray-400 text-xs">What the bot answers with for each expression you make</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700"
+          aria-label="Close mood mapping"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-3">
+        {EMOTIONS.map(emotion => {
+          const counter = mapping[emotion];
+          return (
+            <div key={emotion} className="bg-gray-800/60 border border-gray-700 rounded-xl p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-white capitalize">
+                  You: {emotion} <span className="text-gray-500">→</span> Bot:
+                </span>
+                {overrides[emotion] && (
+                  <button
+                    onClick={() => reset(emotion)}
+                    className="flex items-center space-x-1 text-xs text-gray-400 hover:text-white"
+                    aria-label={`Reset ${emotion} mapping`}
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    <span>Reset</span>
+                  </button>
+                )}
+              </div>
+              <div className="flex space-x-2">
+                <input
+                  value={counter.label}
+                  onChange={(e) => update(emotion, { label: e.target.value })}
+                  placeholder={DEFAULT_COUNTER_MOODS[emotion].label}
+                  className="flex-1 min-w-0 bg-gray-700 text-white text-sm rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  aria-label={`Bot mood when you look ${emotion}`}
+                />
+                <select
+                  value={counter.intensity}
+                  onChange={(e) => update(emotion, { intensity: e.target.value as CounterIntensity })}
+                  className="bg-gray-700 text-gray-200 text-sm rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  aria-label={`Intensity when you look ${emotion}`}
+                >
+                  {COUNTER_INTENSITIES.map(intensity => (
+                    <option key={intensity} value={intensity}>
+                      {intensity}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <input
+                value={counter.styleHints.join('; ')}
+                onChange={(e) =>
+                  update(emotion, {
+                    styleHints: e.target.value.split(';').map(h => h.trimStart()),
+                  })
+                }
+                placeholder="Style hints, separated by semicolons"
+                className="w-full bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                aria-label={`Style hints when you look ${emotion}`}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default MoodMappingEditor;
@@ -0,0 +1,49 @@
+// src/components/MoodTheme.tsx
+
+import React, { useEffect, useState } from 'react';
+import { prefersReducedMotion, shouldReduceMotion, themeFor, ThemeSettings } from '../utils/theme';
+import AmbientEffects from './AmbientEffects';
+
+interface MoodThemeProps {
+  // Counter-mood target the bot is acting out, e.g. "gloomy"
+  target: string;
+  settings: ThemeSettings;
+  children: React.ReactNode;
+}
+
+// Page background, accent colour and ambient effects that spoil the user's mood
+const MoodTheme: React.FC<MoodThemeProps> = ({ target, settings, children }) => {
+  const [systemReducedMotion, setSystemReducedMotion] = useState(prefersReducedMotion);
+
+  useEffect(() => {
+    if (typeof window.matchMedia !== 'function') return;
+    const query = window.matchMedia('(prefers-reduced-motion: reduce)');
+    const update = () => setSystemReducedMotion(query.matches);
+    query.addEventListener('change', update);
+    return () => query.removeEventListener('change', update);
+  }, []);
+
+  const theme = themeFor(target, settings);
+  const reduceMotion = shouldReduceMotion(settings, systemReducedMotion);
+  const style = {
+    '--theme-from': theme.gradient[0],
+    '--theme-via': theme.gradient[1],
+    '--theme-to': theme.gradient[2],
+    '--theme-accent': theme.accent,
+  } as React.CSSProperties;
+
+  return (
+    <div
+      className={`relative min-h-screen theme-backdrop ${reduceMotion ? 'reduce-motion' : ''}`}
+      style={style}
+      data-theme={theme.name}
+    >
+      {settings.effects && !reduceMotion && theme.effect !== 'none' && (
+        <AmbientEffects key={theme.effect} effect={theme.effect} />
+      )}
+      <div className="relative z-10">{children}</div>
+    </div>
+  );
+};
+
+export default MoodTheme;
@@ -0,0 +1,181 @@
+// src/components/PersonaEditor.tsx
+
+import React, { useState } from 'react';
+import { Plus, RotateCcw, Save, Trash2, X, Check } from 'lucide-react';
+import { EmotionContext } from '../utils/api';
+import {
+  allPersonas,
+  buildSystemPrompt,
+  Persona,
+  PersonaSettings,
+  PRESET_PERSONAS,
+  TEMPLATE_VARIABLES,
+} from '../utils/personas';
+
+interface PersonaEditorProps {
+  settings: PersonaSettings;
+  onChange: (settings: PersonaSettings) => void;
+  // Live emotion data the preview is rendered with
+  previewContext: EmotionContext;
+  onClose: () => void;
+}
+
+const PersonaEditor: React.FC<PersonaEditorProps> = ({
+  settings,
+  onChange,
+  previewContext,
+  onClose,
+}) => {
+  const personas = allPersonas(settings);
+  const [selectedId, setSelectedId] = useState(settings.activeId);
+  const selected = personas.find(p => p.id === selectedId) ?? personas[0];
+  const [draft, setDraft] = useState<Persona>(selected);
+
+  const preset = PRESET_PERSONAS.find(p => p.id === draft.id);
+  const isEdited = settings.personas.some(p => p.id === draft.id);
+  const isDirty = draft.name !== selected.name || draft.template !== selected.template;
+
+  const select = (persona: Persona) => {
+    setSelectedId(persona.id);
+    setDraft(persona);
+  };
+
+  const upsert = (persona: Persona) => [
+    ...settings.personas.filter(p => p.id !== persona.id),
+    persona,
+  ];
+
+  const handleSave = () => {
+    onChange({ ...settings, personas: upsert(draft) });
+  };
+
+  const handleNew = () => {
+    const persona: Persona = {
+      id: crypto.randomUUID(),
+      name: 'New persona',
+      template: selected.template,
+    };
+    onChange({ ...settings, personas: upsert(persona) });
+    select(persona);
+  };
+
+  // Presets go back to their shipped template; custom personas are removed
+  const handleRemove = () => {
+    const remaining = settings.personas.filter(p => p.id !== draft.id);
+    const activeId = !preset && settings.activeId === draft.id ? PRESET_PERSONAS[0].id : settings.activeId;
+    onChange({ ...settings, activeId, personas: remaining });
+    select(preset ?? PRESET_PERSONAS[0]);
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex flex-col bg-gray-900/95 backdrop-blur-sm animate-fadeInUp">
+      <div className="flex items-center justify-between p-4 border-b border-gray-700">
+        <h4 className="text-white font-semibold">Bot persona</h4>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700"
+          aria-label="Close persona editor"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {personas.map(persona => (
+            <button
+              key={persona.id}
+              onClick={() => select(persona)}
+              className={`px-3 py-1.5 rounded-lg text-sm border ${
+                persona.id === selectedId
+                  ? 'border-emerald-500 bg-emerald-500/20 text-white'
+                  : 'border-gray-700 text-gray-300 hover:bg-gray-800'
+              }`}
+            >
+              {persona.id === settings.activeId && <Check className="inline w-3 h-3 mr-1 text-emerald-400" />}
+              {persona.name}
+            </button>
+          ))}
+          <button
+            onClick={handleNew}
+            className="px-3 py-1.5 rounded-lg text-sm border border-dashed border-gray-600 text-gray-400 hover:text-white"
+          >
+            <Plus className="inline w-3 h-3 mr-1" />
+            New
+          </button>
+        </div>
+
+        <label className="block">
+          <span className="text-xs text-gray-400">Your name ({'{{userName}}'})</span>
+          <input
+            value={settings.userName}
+            onChange={(e) => onChange({ ...settings, userName: e.target.value })}
+            placeholder="the user"
+            className="mt-1 w-full bg-gray-800 text-white text-sm rounded-lg px-3 py-2 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </label>
+
+        <label className="block">
+          <span className="text-xs text-gray-400">Persona name</span>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="mt-1 w-full bg-gray-800 text-white text-sm rounded-lg px-3 py-2 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </label>
+
+        <label className="block">
+          <span className="text-xs text-gray-400">
+            Template · variables: {TEMPLATE_VARIABLES.map(v => `{{${v}}}`).join(' ')}
+          </span>
+          <textarea
+            value={draft.template}
+            onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+            rows={8}
+            className="mt-1 w-full bg-gray-800 text-white text-xs font-mono rounded-lg px-3 py-2 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </label>
+
+        <div>
+          <span className="text-xs text-gray-400">Preview with your current mood</span>
+          <pre className="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap text-xs text-gray-300 bg-black/30 rounded-lg p-3 border border-gray-800">
+            {buildSystemPrompt({ template: draft.template, userName: settings.userName }, previewContext)}
+          </pre>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between p-4 border-t border-gray-700">
+        <div className="flex items-center space-x-2">
+          {(isEdited || !preset) && (
+            <button
+              onClick={handleRemove}
+              className="flex items-center space-x-1 px-3 py-2 rounded-lg text-sm text-gray-300 hover:bg-gray-800"
+            >
+              {preset ? <RotateCcw className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+              <span>{preset ? 'Reset preset' : 'Delete'}</span>
+            </button>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || !draft.template.trim()}
+            className="flex items-center space-x-1 px-3 py-2 rounded-lg text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white"
+          >
+            <Save className="w-4 h-4" />
+            <span>Save</span>
+          </button>
+          <button
+            onClick={() => onChange({ ...settings, activeId: selected.id })}
+            disabled={settings.activeId === selected.id}
+            className="px-3 py-2 rounded-lg text-sm bg-emerald-500 hover:bg-emerald-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white"
+          >
+            Use this persona
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaEditor;
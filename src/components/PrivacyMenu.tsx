@@ -0,0 +1,100 @@
+// src/components/PrivacyMenu.tsx
+
+import React, { useState } from 'react';
+import { Shield, ShieldCheck, Trash2 } from 'lucide-react';
+import { PrivacySettings } from '../utils/privacy';
+
+interface PrivacyMenuProps {
+  settings: PrivacySettings;
+  onChange: (settings: PrivacySettings) => void;
+  onForgetEverything: () => void;
+}
+
+const PrivacyMenu: React.FC<PrivacyMenuProps> = ({ settings, onChange, onForgetEverything }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  const update = (patch: Partial<PrivacySettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => {
+          setIsOpen(prev => !prev);
+          setIsConfirming(false);
+        }}
+        className={`flex items-center space-x-2 px-3 py-2 rounded-lg hover:bg-gray-700 ${
+          settings.strictLocal ? 'text-emerald-400' : 'text-gray-300'
+        }`}
+        aria-label="Privacy settings"
+        aria-expanded={isOpen}
+      >
+        {settings.strictLocal ? <ShieldCheck className="w-5 h-5" /> : <Shield className="w-5 h-5" />}
+        <span className="text-sm hidden sm:inline">{settings.strictLocal ? 'Local only' : 'Privacy'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-72 bg-gray-800 border border-gray-700 rounded-xl shadow-lg p-3 space-y-3 animate-fadeInUp">
+          <label className="flex items-start space-x-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.strictLocal}
+              onChange={(e) => update({ strictLocal: e.target.checked })}
+              className="accent-emerald-500 mt-0.5"
+            />
+            <span>
+              <span className="font-medium text-white">Strict local mode</span>
+              <br />
+              Refuse remote LLM providers, cloud speech recognition and voices, and model downloads from other
+              servers. Only this device is used.
+            </span>
+          </label>
+
+          <div className="flex items-center justify-between text-xs text-gray-300">
+            <span>Camera consent: {settings.cameraConsent ? 'given' : 'not given'}</span>
+            {settings.cameraConsent && (
+              <button
+                onClick={() => update({ cameraConsent: false })}
+                className="text-amber-400 hover:text-amber-300"
+              >
+                Withdraw
+              </button>
+            )}
+          </div>
+
+          {isConfirming ? (
+            <div className="space-y-2">
+              <p className="text-xs text-red-300">
+                Delete every saved chat, mood log and setting from this browser? This can't be undone.
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={onForgetEverything}
+                  className="flex-1 px-2 py-1.5 rounded-lg bg-red-500 hover:bg-red-600 text-white text-xs font-medium"
+                >
+                  Delete everything
+                </button>
+                <button
+                  onClick={() => setIsConfirming(false)}
+                  className="flex-1 px-2 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setIsConfirming(true)}
+              className="w-full flex items-center justify-center space-x-2 px-2 py-1.5 rounded-lg border border-red-500/50 text-red-300 hover:bg-red-500/10 text-xs"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Forget everything</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrivacyMenu;
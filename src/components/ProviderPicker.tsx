@@ -0,0 +1,58 @@
+// src/components/ProviderPicker.tsx
+
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import { providers, ProviderId, isProviderId } from '../utils/providers';
+import { LLMSettings } from '../utils/llmConfig';
+
+interface ProviderPickerProps {
+  settings: LLMSettings;
+  onChange: (settings: LLMSettings) => void;
+}
+
+const ProviderPicker: React.FC<ProviderPickerProps> = ({ settings, onChange }) => {
+  const provider = providers[settings.providerId];
+  const datalistId = `models-${provider.id}`;
+
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const providerId = e.target.value;
+    if (!isProviderId(providerId)) return;
+    onChange({ providerId, model: providers[providerId].defaultModel });
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Cpu className="w-4 h-4 text-gray-400 flex-shrink-0" />
+      <select
+        value={settings.providerId}
+        onChange={handleProviderChange}
+        className="bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        aria-label="LLM provider"
+      >
+        {(Object.keys(providers) as ProviderId[]).map(id => (
+          <option key={id} value={id}>
+            {providers[id].label}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        list={datalistId}
+        value={settings.model}
+        onChange={(e) => onChange({ ...settings, model: e.target.value })}
+        onBlur={(e) => {
+          if (!e.target.value.trim()) onChange({ ...settings, model: provider.defaultModel });
+        }}
+        className="w-36 bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        aria-label="Model"
+      />
+      <datalist id={datalistId}>
+        {provider.models.map(model => (
+          <option key={model} value={model} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default ProviderPicker;
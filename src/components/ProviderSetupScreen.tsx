@@ -0,0 +1,105 @@
+// src/components/ProviderSetupScreen.tsx
+
+import React from 'react';
+import { KeyRound, ShieldCheck } from 'lucide-react';
+import { LLMSettings } from '../utils/llmConfig';
+import {
+  MissingApiKeys,
+  needsProviderSetup,
+  providerRemoteHost,
+  ProviderId,
+  providers,
+  withMissingApiKey,
+} from '../utils/providers';
+
+interface ProviderSetupScreenProps {
+  settings: LLMSettings;
+  onChange: (settings: LLMSettings) => void;
+  strictLocal?: boolean;
+  // Tokens our own server reported missing
+  missingApiKeys?: MissingApiKeys;
+}
+
+// Where to get a token for providers that need one
+const TOKEN_LINKS: Partial<Record<ProviderId, string>> = {
+  huggingface: 'https://huggingface.co/settings/tokens',
+  openai: 'https://platform.openai.com/api-keys',
+};
+
+// Shown instead of the chat while the selected provider is missing its token
+// or, in strict local mode, would send the chat to another machine
+const ProviderSetupScreen: React.FC<ProviderSetupScreenProps> = ({
+  settings,
+  onChange,
+  strictLocal = false,
+  missingApiKeys,
+}) => {
+  const provider = withMissingApiKey(providers[settings.providerId], missingApiKeys);
+  const link = TOKEN_LINKS[provider.id];
+  const blockedHost = strictLocal ? providerRemoteHost(provider) : undefined;
+  const alternatives = (Object.keys(providers) as ProviderId[]).filter(
+    id => !needsProviderSetup(withMissingApiKey(providers[id], missingApiKeys), strictLocal)
+  );
+
+  return (
+    <div className="absolute inset-0 z-30 flex flex-col items-center justify-center bg-gray-900/95 backdrop-blur-sm p-6 text-center animate-fadeInUp">
+      {blockedHost ? (
+        <>
+          <div className="w-12 h-12 bg-emerald-500/20 rounded-lg flex items-center justify-center mb-4">
+            <ShieldCheck className="w-6 h-6 text-emerald-400" />
+          </div>
+          <h4 className="text-white font-semibold mb-2">Strict local mode blocks {provider.label}</h4>
+          <p className="text-gray-300 text-sm mb-4 max-w-sm">
+            {provider.label} would send your chat to <code className="text-amber-300">{blockedHost}</code>. Pick
+            a provider running on this device, or turn off strict local mode in the privacy menu.
+          </p>
+        </>
+      ) : (
+        <>
+          <div className="w-12 h-12 bg-amber-500/20 rounded-lg flex items-center justify-center mb-4">
+            <KeyRound className="w-6 h-6 text-amber-400" />
+          </div>
+          <h4 className="text-white font-semibold mb-2">{provider.label} needs an API token</h4>
+          <ol className="text-gray-300 text-sm space-y-1 text-left list-decimal list-inside mb-4">
+            <li>
+              Get a token
+              {link && (
+                <>
+                  {' '}from{' '}
+                  <a href={link} target="_blank" rel="noreferrer" className="text-emerald-400 hover:underline">
+                    {new URL(link).host}
+                  </a>
+                </>
+              )}
+            </li>
+            <li>
+              Add <code className="text-amber-300">{provider.missingApiKey}=…</code> to <code>.env</code> in the
+              project root
+            </li>
+            <li>Restart the dev server</li>
+          </ol>
+        </>
+      )}
+      {alternatives.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-gray-400 text-xs">
+            {blockedHost ? 'Local providers:' : 'Or use a provider that works without a token:'}
+          </p>
+          <div className="flex flex-wrap justify-center gap-2">
+            {alternatives.map(id => (
+              <button
+                key={id}
+                onClick={() => onChange({ providerId: id, model: providers[id].defaultModel })}
+                className="px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs"
+              >
+                {providers[id].label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSetupScreen;
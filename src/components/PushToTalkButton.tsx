@@ -0,0 +1,95 @@
+// src/components/PushToTalkButton.tsx
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader, Mic } from 'lucide-react';
+import {
+  ListeningSession,
+  RecognizerId,
+  SpeechInputError,
+  startListening,
+} from '../utils/speechToText';
+
+interface PushToTalkButtonProps {
+  recognizer: RecognizerId;
+  disabled?: boolean;
+  onInterim: (text: string) => void;
+  onTranscript: (text: string) => void;
+  onError: (message: string) => void;
+}
+
+// Hold to record, release to send what was said
+const PushToTalkButton: React.FC<PushToTalkButtonProps> = ({
+  recognizer,
+  disabled = false,
+  onInterim,
+  onTranscript,
+  onError,
+}) => {
+  const [state, setState] = useState<'idle' | 'listening' | 'transcribing'>('idle');
+  const sessionRef = useRef<Promise<ListeningSession> | null>(null);
+
+  useEffect(
+    () => () => {
+      sessionRef.current?.then(session => session.cancel()).catch(() => {});
+    },
+    []
+  );
+
+  const start = () => {
+    if (disabled || sessionRef.current) return;
+    setState('listening');
+    const session = startListening(recognizer, { onInterim });
+    sessionRef.current = session;
+    session.catch(err => {
+      sessionRef.current = null;
+      setState('idle');
+      onError(err instanceof SpeechInputError ? err.message : 'Could not start listening.');
+    });
+  };
+
+  const stop = async () => {
+    const pending = sessionRef.current;
+    if (!pending) return;
+    sessionRef.current = null;
+    setState('transcribing');
+    // A failed start has already been reported
+    const session = await pending.catch(() => null);
+    if (!session) return;
+    try {
+      const text = await session.stop();
+      if (text) onTranscript(text);
+    } catch (err) {
+      console.error('Failed to transcribe speech:', err);
+      onError(err instanceof SpeechInputError ? err.message : 'Could not understand that.');
+    }
+    setState('idle');
+  };
+
+  return (
+    <button
+      onPointerDown={start}
+      onPointerUp={stop}
+      onPointerLeave={stop}
+      onKeyDown={(e) => {
+        if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) start();
+      }}
+      onKeyUp={(e) => {
+        if (e.key === ' ' || e.key === 'Enter') stop();
+      }}
+      // Stays enabled while listening, e.g. when a reply starts mid-hold, so
+      // the release still arrives and the mic stops
+      disabled={(disabled && state !== 'listening') || state === 'transcribing'}
+      className={`rounded-xl px-4 py-3 transition-all ${
+        state === 'listening'
+          ? 'bg-red-500 text-white animate-pulse'
+          : 'bg-gray-700 text-gray-300 hover:text-white border border-gray-600'
+      } disabled:opacity-50 disabled:cursor-not-allowed`}
+      aria-label="Hold to talk"
+      aria-pressed={state === 'listening'}
+    >
+      {state === 'transcribing' ? <Loader className="w-5 h-5 animate-spin" /> : <Mic className="w-5 h-5" />}
+    </button>
+  );
+};
+
+export default PushToTalkButton;
@@ -0,0 +1,46 @@
+// src/components/ReplayFeed.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Clapperboard } from 'lucide-react';
+import { EmotionProbabilities, formatProbabilities } from '../utils/emotions';
+import { playReplay, ReplayScript } from '../utils/replay';
+
+interface ReplayFeedProps {
+  script: ReplayScript;
+  onEmotionDetected: (emotion: string, probabilities: EmotionProbabilities) => void;
+}
+
+// Stands in for WebcamFeed and plays a scripted emotion timeline instead
+const ReplayFeed: React.FC<ReplayFeedProps> = ({ script, onEmotionDetected }) => {
+  const [frame, setFrame] = useState<{ index: number; emotion: string; probabilities: EmotionProbabilities } | null>(
+    null
+  );
+
+  useEffect(
+    () =>
+      playReplay(script, (emotion, probabilities, index) => {
+        setFrame({ index, emotion, probabilities });
+        onEmotionDetected(emotion, probabilities);
+      }),
+    [script, onEmotionDetected]
+  );
+
+  return (
+    <div className="relative w-full h-[700px] max-h-[90vh] bg-gray-900 rounded-2xl overflow-hidden border border-gray-700">
+      <div className="flex items-center justify-center h-full flex-col space-y-4 px-4 text-center">
+        <Clapperboard className="w-16 h-16 text-purple-400" />
+        <p className="text-gray-300">Replaying “{script.name}”</p>
+        <p className="text-gray-500 text-sm">
+          {frame
+            ? `Frame ${frame.index + 1}/${script.frames.length}: ${frame.emotion} (${formatProbabilities(frame.probabilities)})`
+            : 'Waiting for the first frame…'}
+        </p>
+      </div>
+      <div className="absolute top-4 left-4 bg-black/50 backdrop-blur-sm rounded-lg px-3 py-2">
+        <span className="text-sm font-medium text-purple-400">REPLAY{script.loop ? ' · LOOP' : ''}</span>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayFeed;
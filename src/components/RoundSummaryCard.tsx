@@ -0,0 +1,79 @@
+// src/components/RoundSummaryCard.tsx
+
+import React from 'react';
+import { Trophy, X } from 'lucide-react';
+import { DIFFICULTIES, RoundSummary } from '../utils/game';
+import Leaderboard from './Leaderboard';
+
+interface RoundSummaryCardProps {
+  summary: RoundSummary;
+  leaderboard: RoundSummary[];
+  onPlayAgain: () => void;
+  onClose: () => void;
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+
+const RoundSummaryCard: React.FC<RoundSummaryCardProps> = ({ summary, leaderboard, onPlayAgain, onClose }) => {
+  const rank = leaderboard.findIndex(entry => entry.id === summary.id);
+  const stats = [
+    { label: `Time ${summary.target}`, value: `${Math.round((summary.onTargetMs / summary.durationMs) * 100)}%` },
+    { label: 'Longest streak', value: seconds(summary.longestStreakMs) },
+    { label: 'Mood broken', value: `${summary.breaks}×` },
+  ];
+
+  return (
+    <div className="absolute inset-0 z-30 flex flex-col bg-gray-900/95 backdrop-blur-sm rounded-2xl animate-fadeInUp">
+      <div className="flex items-center justify-between p-4 border-b border-gray-700">
+        <div className="flex items-center space-x-2">
+          <Trophy className="w-5 h-5 text-amber-400" />
+          <h3 className="text-white font-semibold">Round over</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700"
+          aria-label="Close round summary"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div className="text-center">
+          <p className="text-4xl font-bold text-white">{summary.score}</p>
+          <p className="text-sm text-gray-400">
+            {summary.player} · stay {summary.target} · {DIFFICULTIES[summary.difficulty].label}
+          </p>
+          <p className="text-sm text-emerald-300 mt-1">
+            {rank >= 0 ? `#${rank + 1} on the leaderboard` : "Didn't make the leaderboard"}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          {stats.map(stat => (
+            <div key={stat.label} className="bg-gray-800 border border-gray-700 rounded-xl p-3 text-center">
+              <p className="text-lg font-semibold text-white">{stat.value}</p>
+              <p className="text-xs text-gray-400 capitalize">{stat.label}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-300">Leaderboard</h4>
+          <Leaderboard entries={leaderboard} highlightId={summary.id} />
+        </div>
+      </div>
+
+      <div className="p-4 border-t border-gray-700">
+        <button
+          onClick={onPlayAgain}
+          className="w-full px-3 py-2 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-medium"
+        >
+          Play again
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RoundSummaryCard;
@@ -0,0 +1,131 @@
+// src/components/SessionSidebar.tsx
+
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2, Check, X, MessageSquare } from 'lucide-react';
+import { SessionSummary } from '../types/chat';
+
+interface SessionSidebarProps {
+  sessions: SessionSummary[];
+  currentSessionId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const SessionSidebar: React.FC<SessionSidebarProps> = ({
+  sessions,
+  currentSessionId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onClose,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startEditing = (session: SessionSummary) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) onRename(editingId, draftTitle.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="absolute inset-y-0 left-0 z-20 w-72 max-w-full flex flex-col bg-gray-900/95 backdrop-blur-sm border-r border-gray-700 animate-slideInLeft">
+      <div className="flex items-center justify-between p-4 border-b border-gray-700">
+        <h4 className="text-white font-semibold">Chat history</h4>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={onNew}
+            className="p-1.5 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white"
+            aria-label="New chat"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700"
+            aria-label="Close history"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sessions.length === 0 && (
+          <p className="text-gray-500 text-sm text-center py-8">No saved chats yet</p>
+        )}
+        {sessions.map(session => {
+          const isCurrent = session.id === currentSessionId;
+          return (
+            <div
+              key={session.id}
+              className={`group rounded-lg px-3 py-2 ${
+                isCurrent ? 'bg-emerald-500/20 border border-emerald-500/40' : 'hover:bg-gray-800'
+              }`}
+            >
+              {editingId === session.id ? (
+                <div className="flex items-center space-x-1">
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-gray-700 text-white text-sm rounded px-2 py-1 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    aria-label="Chat title"
+                  />
+                  <button onClick={commitRename} className="p-1 text-emerald-400" aria-label="Save title">
+                    <Check className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => onSelect(session.id)}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <p className="text-sm text-gray-100 truncate">{session.title}</p>
+                    <p className="text-xs text-gray-500 flex items-center space-x-1">
+                      <MessageSquare className="w-3 h-3" />
+                      <span>{session.messageCount}</span>
+                      <span>·</span>
+                      <span>{session.updatedAt.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+                    </p>
+                  </button>
+                  <div className="flex items-center opacity-0 group-hover:opacity-100">
+                    <button
+                      onClick={() => startEditing(session)}
+                      className="p-1 text-gray-400 hover:text-white"
+                      aria-label="Rename chat"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => onDelete(session.id)}
+                      className="p-1 text-gray-400 hover:text-red-400"
+                      aria-label="Delete chat"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SessionSidebar;
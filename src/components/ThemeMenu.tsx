@@ -0,0 +1,82 @@
+// src/components/ThemeMenu.tsx
+
+import React, { useState } from 'react';
+import { Palette } from 'lucide-react';
+import { MotionPreference, Theme, ThemeSettings } from '../utils/theme';
+
+interface ThemeMenuProps {
+  settings: ThemeSettings;
+  onChange: (settings: ThemeSettings) => void;
+  // Theme currently on screen, named in the trigger
+  theme: Theme;
+}
+
+const selectClassName =
+  'w-full bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const MOTION_LABELS: Record<MotionPreference, string> = {
+  system: 'Follow system setting',
+  reduce: 'Reduce motion',
+  full: 'Full motion',
+};
+
+const ThemeMenu: React.FC<ThemeMenuProps> = ({ settings, onChange, theme }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (patch: Partial<ThemeSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center space-x-2 px-3 py-2 rounded-lg text-gray-300 hover:bg-gray-700"
+        aria-label="Theme settings"
+        aria-expanded={isOpen}
+      >
+        <Palette className="w-5 h-5 theme-accent-text" />
+        {settings.reactive && <span className="text-sm hidden sm:inline capitalize">Vibe: {theme.name}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-64 bg-gray-800 border border-gray-700 rounded-xl shadow-lg p-3 space-y-3 animate-fadeInUp">
+          <label className="flex items-center space-x-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.reactive}
+              onChange={(e) => update({ reactive: e.target.checked })}
+              className="accent-emerald-500"
+            />
+            <span>Colour the page with the opposite of your mood</span>
+          </label>
+
+          <label className="flex items-center space-x-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.effects}
+              disabled={!settings.reactive}
+              onChange={(e) => update({ effects: e.target.checked })}
+              className="accent-emerald-500"
+            />
+            <span>Ambient effects like rain and confetti</span>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Motion</span>
+            <select
+              value={settings.motion}
+              onChange={(e) => update({ motion: e.target.value as MotionPreference })}
+              className={selectClassName}
+            >
+              {(Object.keys(MOTION_LABELS) as MotionPreference[]).map(motion => (
+                <option key={motion} value={motion}>{MOTION_LABELS[motion]}</option>
+              ))}
+            </select>
+          </label>
+          <p className="text-xs text-gray-500">Reduced motion turns off ambient effects and fades.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThemeMenu;
@@ -0,0 +1,78 @@
+// src/components/TranscriptMenu.tsx
+
+import React, { useRef, useState } from 'react';
+import { Download, Upload, FileJson, FileText, FileCode } from 'lucide-react';
+import { TranscriptFormat } from '../utils/transcript';
+
+interface TranscriptMenuProps {
+  onExport: (format: TranscriptFormat) => void;
+  onImport: (file: File) => void;
+}
+
+const exportOptions: { format: TranscriptFormat; label: string; icon: typeof FileJson }[] = [
+  { format: 'json', label: 'JSON (re-importable)', icon: FileJson },
+  { format: 'markdown', label: 'Markdown', icon: FileText },
+  { format: 'html', label: 'HTML transcript', icon: FileCode },
+];
+
+const TranscriptMenu: React.FC<TranscriptMenuProps> = ({ onExport, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    // Allow importing the same file twice in a row
+    e.target.value = '';
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700"
+        aria-label="Export or import chat"
+        aria-expanded={isOpen}
+      >
+        <Download className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 z-30 w-56 bg-gray-800 border border-gray-700 rounded-xl shadow-lg py-1 animate-fadeInUp">
+          {exportOptions.map(({ format, label, icon: Icon }) => (
+            <button
+              key={format}
+              onClick={() => {
+                onExport(format);
+                setIsOpen(false);
+              }}
+              className="w-full flex items-center space-x-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-700"
+            >
+              <Icon className="w-4 h-4 text-emerald-400" />
+              <span>Export as {label}</span>
+            </button>
+          ))}
+          <div className="border-t border-gray-700 my-1" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center space-x-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-700"
+          >
+            <Upload className="w-4 h-4 text-amber-400" />
+            <span>Import JSON…</span>
+          </button>
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default TranscriptMenu;
@@ -0,0 +1,92 @@
+// src/components/VoiceSettingsMenu.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { supportsWebSpeech, supportsWhisper, RecognizerId } from '../utils/speechToText';
+import { listVoices, supportsSpeechSynthesis } from '../utils/textToSpeech';
+import { VoiceSettings } from '../utils/voiceSettings';
+
+interface VoiceSettingsMenuProps {
+  settings: VoiceSettings;
+  onChange: (settings: VoiceSettings) => void;
+}
+
+const selectClassName =
+  'w-full bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const VoiceSettingsMenu: React.FC<VoiceSettingsMenuProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(listVoices);
+
+  // Browsers load their voice list asynchronously
+  useEffect(() => {
+    if (!supportsSpeechSynthesis()) return;
+    const refresh = () => setVoices(listVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', refresh);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', refresh);
+  }, []);
+
+  const update = (patch: Partial<VoiceSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700"
+        aria-label="Voice settings"
+        aria-expanded={isOpen}
+      >
+        {settings.speakReplies ? <Volume2 className="w-5 h-5" /> : <VolumeX className="w-5 h-5" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 z-30 w-64 bg-gray-800 border border-gray-700 rounded-xl shadow-lg p-3 space-y-3 animate-fadeInUp">
+          <label className="flex items-center space-x-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.speakReplies}
+              disabled={!supportsSpeechSynthesis()}
+              onChange={(e) => update({ speakReplies: e.target.checked })}
+              className="accent-emerald-500"
+            />
+            <span>Speak bot replies{supportsSpeechSynthesis() ? '' : ' (not supported here)'}</span>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Voice</span>
+            <select
+              value={settings.voiceURI}
+              onChange={(e) => update({ voiceURI: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">Auto (changes with the bot's mood)</option>
+              {voices.map(voice => (
+                <option key={voice.voiceURI} value={voice.voiceURI}>
+                  {voice.name} ({voice.lang})
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Push-to-talk uses</span>
+            <select
+              value={settings.recognizer}
+              onChange={(e) => update({ recognizer: e.target.value as RecognizerId })}
+              className={selectClassName}
+            >
+              <option value="webspeech" disabled={!supportsWebSpeech()}>
+                Browser speech recognition
+              </option>
+              <option value="whisper" disabled={!supportsWhisper()}>
+                Whisper endpoint{supportsWhisper() ? '' : ' (set VITE_WHISPER_URL)'}
+              </option>
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VoiceSettingsMenu;
@@ -1,312 +1,311 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Camera, CameraOff, Loader, AlertCircle } from 'lucide-react';
+import { Camera, CameraOff, Loader, AlertCircle, Pause, Play, ShieldCheck, Users } from 'lucide-react';
+import { ModelLoadError } from '../utils/faceModels';
+import { EmotionProbabilities, topEmotion } from '../utils/emotions';
+import {
+  createDetectors,
+  DetectionInput,
+  DetectorKind,
+  EmotionDetector,
+  mediaSize,
+} from '../utils/detectors';
+import {
+  InputSource,
+  InputSourceError,
+  OpenedSource,
+  openInputSource,
+  WEBCAM_SOURCE,
+} from '../utils/inputSources';
+import {
+  CameraSettings,
+  cameraConstraints,
+  listCameras,
+  loadCameraSettings,
+  saveCameraSettings,
+} from '../utils/cameraSettings';
+import CameraSettingsMenu from './CameraSettingsMenu';
+import InputSourcePicker from './InputSourcePicker';
+import { emptyLatencyStats, FrameScheduler, LatencyStats } from '../utils/frameScheduler';
+import { drawOverlay, OverlayBox } from '../utils/overlay';
+import { createWorkerDetector } from '../utils/workerDetector';
+import { emotionStyle } from '../utils/theme';
+import {
+  computeRoomMood,
+  FaceObservation,
+  FaceTracker,
+  GroupReading,
+  RoomStrategy,
+} from '../utils/faceTracker';
 
 interface WebcamFeedProps {
-  onEmotionDetected: (emotion: string) => void;
+  // Called once per frame with the top label and the full score vector.
+  // In group mode these describe the room rather than a single face.
+  onEmotionDetected: (emotion: string, probabilities: EmotionProbabilities) => void;
+  // Per-person readings while group mode is on, null once it is switched off
+  onGroupDetected?: (group: GroupReading | null) => void;
+  // The webcam stays closed until the user has agreed to turn it on
+  cameraConsent?: boolean;
+  onCameraConsent?: (granted: boolean) => void;
 }
 
-const emotionMapping: { [key: string]: string } = {
-  angry: 'angry',
-  disgusted: 'disgusted',
-  fearful: 'fearful',
-  happy: 'happy',
-  neutral: 'neutral',
-  sad: 'sad',
-  surprised: 'surprised',
-};
-
-const WebcamFeed: React.FC<WebcamFeedProps> = ({ onEmotionDetected }) => {
+const WebcamFeed: React.FC<WebcamFeedProps> = ({
+  onEmotionDetected,
+  onGroupDetected,
+  cameraConsent = false,
+  onCameraConsent,
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isActive, setIsActive] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [currentEmotion, setCurrentEmotion] = useState('neutral');
   const [confidence, setConfidence] = useState(0);
   const [error, setError] = useState<string | null>(null);
-  const [detectionMode, setDetectionMode] = useState<'loading' | 'faceapi' | 'tensorflow' | 'simulation'>('loading');
-
-  // Method 1: Try to load face-api.js
-  const loadFaceAPI = async (): Promise<boolean> => {
-    try {
-      const cdnUrls = [
-        'https://cdn.jsdelivr.net/npm/face-api.js@0.22.2/dist/face-api.min.js',
-        'https://unpkg.com/face-api.js@0.22.2/dist/face-api.min.js'
-      ];
-      
-      const loadScript = (src: string): Promise<void> => {
-        return new Promise((resolve, reject) => {
-          if (document.querySelector(`script[src="${src}"]`)) {
-            resolve();
-            return;
-          }
-          const script = document.createElement('script');
-          script.src = src;
-          script.onload = () => resolve();
-          script.onerror = () => reject(new Error(`Failed to load ${src}`));
-          document.head.appendChild(script);
-        });
-      };
-
-      for (const url of cdnUrls) {
-        try {
-          await loadScript(url);
-          await new Promise(resolve => setTimeout(resolve, 500));
-          
-          if (window.faceapi) {
-            const modelUrls = [
-              'https://cdn.jsdelivr.net/gh/justadudewhohacks/face-api.js@master/weights',
-              'https://raw.githubusercontent.com/justadudewhohacks/face-api.js/master/weights'
-            ];
-            
-            for (const baseUrl of modelUrls) {
-              try {
-                await Promise.all([
-                  window.faceapi.nets.tinyFaceDetector.loadFromUri(baseUrl),
-                  window.faceapi.nets.faceExpressionNet.loadFromUri(baseUrl)
-                ]);
-                return true;
-              } catch (err) {
-                console.warn(`Failed to load models from ${baseUrl}`);
-              }
-            }
-          }
-        } catch (err) {
-          console.warn(`Failed to load face-api from ${url}`);
-        }
-      }
-      return false;
-    } catch (err) {
-      return false;
-    }
-  };
+  const [source, setSource] = useState<InputSource>(WEBCAM_SOURCE);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [modelError, setModelError] = useState<string | null>(null);
+  const [detector, setDetector] = useState<EmotionDetector | null>(null);
+  const [groupMode, setGroupMode] = useState(false);
+  const [roomStrategy, setRoomStrategy] = useState<RoomStrategy>('majority');
+  const [faceCount, setFaceCount] = useState(0);
+  const [latency, setLatency] = useState<LatencyStats>(emptyLatencyStats);
+  // The detection interval outlives renders, so it reads group settings through refs
+  const groupModeRef = useRef(groupMode);
+  const roomStrategyRef = useRef(roomStrategy);
+  const trackerRef = useRef(new FaceTracker());
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
+  // Kill switch: off closes the camera or screen share entirely
+  const [captureOn, setCaptureOn] = useState(true);
+  const mirrorRef = useRef(cameraSettings.mirror);
+  const { deviceId, resolution, intervalMs, mirror } = cameraSettings;
+  const isCapture = source.kind === 'webcam' || source.kind === 'screen';
+  const awaitingConsent = source.kind === 'webcam' && !cameraConsent;
+  const canOpen = !isCapture || (captureOn && !awaitingConsent);
 
-  // Method 2: Use MediaPipe/TensorFlow.js approach
-  const loadTensorFlow = async (): Promise<boolean> => {
-    try {
-      const script = document.createElement('script');
-      script.src = 'https://cdn.jsdelivr.net/npm/@tensorflow/tfjs@latest/dist/tf.min.js';
-      
-      return new Promise((resolve) => {
-        script.onload = () => {
-          // TensorFlow loaded - we'll use a simplified emotion detection
-          resolve(true);
-        };
-        script.onerror = () => resolve(false);
-        document.head.appendChild(script);
-      });
-    } catch (err) {
-      return false;
+  useEffect(() => {
+    groupModeRef.current = groupMode;
+    roomStrategyRef.current = roomStrategy;
+    if (!groupMode) {
+      trackerRef.current.reset();
+      setFaceCount(0);
+      onGroupDetected?.(null);
     }
-  };
+  }, [groupMode, roomStrategy, onGroupDetected]);
 
-  // Initialize detection method
+  // Try each backend in order; simulation always loads
   useEffect(() => {
+    let cancelled = false;
+
     const initializeDetection = async () => {
       setIsLoading(true);
-      
-      // Try Face-API first
-      console.log('Attempting to load Face-API.js...');
-      const faceApiLoaded = await loadFaceAPI();
-      
-      if (faceApiLoaded) {
-        console.log('Face-API.js loaded successfully!');
-        setDetectionMode('faceapi');
-        setIsLoading(false);
-        return;
-      }
-      
-      // Try TensorFlow.js as fallback
-      console.log('Attempting to load TensorFlow.js...');
-      const tensorflowLoaded = await loadTensorFlow();
-      
-      if (tensorflowLoaded) {
-        console.log('TensorFlow.js loaded successfully!');
-        setDetectionMode('tensorflow');
-        setIsLoading(false);
-        return;
+
+      for (const candidate of createDetectors().map(createWorkerDetector)) {
+        try {
+          await candidate.load();
+          if (cancelled) {
+            candidate.dispose?.();
+            return;
+          }
+          setDetector(candidate);
+          if (!candidate.isML) {
+            setError('Could not load ML libraries. Using simulation mode.');
+          }
+          break;
+        } catch (err) {
+          console.error(`Failed to load ${candidate.kind} detector:`, err);
+          if (candidate.kind === 'faceapi') {
+            setModelError(err instanceof ModelLoadError ? err.message : String(err));
+          }
+        }
       }
-      
-      // Fall back to simulation
-      console.log('Falling back to simulation mode');
-      setDetectionMode('simulation');
-      setError('Could not load ML libraries. Using simulation mode.');
+
       setIsLoading(false);
     };
 
     initializeDetection();
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  // Face-API detection
-  const detectEmotionsFaceAPI = async () => {
-    if (!videoRef.current || !window.faceapi) return;
-    
-    try {
-      const detections = await window.faceapi
-        .detectAllFaces(videoRef.current, new window.faceapi.TinyFaceDetectorOptions())
-        .withFaceExpressions();
-
-      if (detections.length > 0) {
-        const expressions = detections[0].expressions;
-        const maxExpression = Object.keys(expressions).reduce((a, b) => 
-          expressions[a] > expressions[b] ? a : b
-        );
-        
-        const mappedEmotion = emotionMapping[maxExpression] || maxExpression;
-        const emotionConfidence = expressions[maxExpression];
-        
-        setCurrentEmotion(mappedEmotion);
-        setConfidence(emotionConfidence);
-        onEmotionDetected(mappedEmotion);
-
-        // Draw on canvas
-        if (canvasRef.current) {
-          const canvas = canvasRef.current;
-          const displaySize = { width: videoRef.current.videoWidth, height: videoRef.current.videoHeight };
-          window.faceapi.matchDimensions(canvas, displaySize);
-          
-          const resizedDetections = window.faceapi.resizeResults(detections, displaySize);
-          const ctx = canvas.getContext('2d');
-          if (ctx) {
-            ctx.clearRect(0, 0, canvas.width, canvas.height);
-            window.faceapi.draw.drawDetections(canvas, resizedDetections);
-            window.faceapi.draw.drawFaceExpressions(canvas, resizedDetections);
-          }
-        }
-      }
-    } catch (err) {
-      console.error('Face-API detection error:', err);
-    }
-  };
+  useEffect(() => {
+    saveCameraSettings(cameraSettings);
+    mirrorRef.current = cameraSettings.mirror;
+  }, [cameraSettings]);
 
-  // TensorFlow-based detection (simplified)
-  const detectEmotionsTensorFlow = async () => {
-    // Simplified emotion detection using basic image analysis
-    const emotions = ['happy', 'sad', 'angry', 'surprised', 'neutral', 'fearful'];
-    const weights = [0.3, 0.1, 0.1, 0.2, 0.2, 0.1]; // Weighted toward happy/neutral
-    
-    // Use weighted random selection for more realistic simulation
-    let random = Math.random();
-    let emotion = 'neutral';
-    let cumulative = 0;
-    
-    for (let i = 0; i < emotions.length; i++) {
-      cumulative += weights[i];
-      if (random <= cumulative) {
-        emotion = emotions[i];
-        break;
-      }
-    }
-    
-    const conf = Math.random() * 0.3 + 0.7; // 70-100% confidence
-    setCurrentEmotion(emotion);
-    setConfidence(conf);
-    onEmotionDetected(emotion);
-  };
+  // Keep the camera list current as devices are plugged in or removed
+  useEffect(() => {
+    const refreshCameras = () =>
+      listCameras()
+        .then(setCameras)
+        .catch(err => console.error('Failed to list cameras:', err));
 
-  // Simulation mode
-  const detectEmotionsSimulation = () => {
-    const emotions = ['happy', 'sad', 'angry', 'surprised', 'neutral', 'fearful'];
-    const randomEmotion = emotions[Math.floor(Math.random() * emotions.length)];
-    const randomConfidence = Math.random() * 0.4 + 0.6;
-    
-    setCurrentEmotion(randomEmotion);
-    setConfidence(randomConfidence);
-    onEmotionDetected(randomEmotion);
-  };
+    refreshCameras();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshCameras);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshCameras);
+  }, [isActive]);
+
+  // Fall back to the default camera when the chosen one is unplugged
+  useEffect(() => {
+    if (cameras.length > 0 && deviceId && !cameras.some(c => c.deviceId === deviceId)) {
+      setCameraSettings(prev => ({ ...prev, deviceId: '' }));
+    }
+  }, [cameras, deviceId]);
 
-  // Start webcam and detection
+  // Open the selected input
   useEffect(() => {
-    let stream: MediaStream | null = null;
-    let detectionInterval: ReturnType<typeof setInterval>;
+    let opened: OpenedSource | null = null;
+    let cancelled = false;
+    const video = videoRef.current;
+    const image = imageRef.current;
+
+    const markReady = () => {
+      if (!cancelled) setIsActive(true);
+    };
+
+    const startSource = async () => {
+      setIsActive(false);
+      setSourceError(null);
+      trackerRef.current.reset();
 
-    const startWebcam = async () => {
       try {
-        stream = await navigator.mediaDevices.getUserMedia({ 
-          video: { width: 640, height: 480 } 
-        });
-        
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
-          videoRef.current.onloadedmetadata = () => {
-            setIsActive(true);
-            
-            // Start appropriate detection method
-            if (detectionMode === 'faceapi' || detectionMode === 'tensorflow' || detectionMode === 'simulation') {
-              const detectFunction = {
-                faceapi: detectEmotionsFaceAPI,
-                tensorflow: detectEmotionsTensorFlow,
-                simulation: detectEmotionsSimulation
-              }[detectionMode];
-
-              if (detectFunction) {
-                detectionInterval = setInterval(
-                  detectFunction,
-                  detectionMode === 'simulation' ? 3000 : 1000
-                );
-              }
-            }
-            
-          };
+        const next = await openInputSource(source, cameraConstraints({ deviceId, resolution }));
+        if (cancelled) {
+          next.close();
+          return;
+        }
+        opened = next;
+
+        if (source.kind === 'image') {
+          if (!image || !next.url) return;
+          image.onload = markReady;
+          image.src = next.url;
+          return;
+        }
+
+        if (!video) return;
+        video.onloadedmetadata = markReady;
+        if (next.stream) {
+          video.srcObject = next.stream;
+          // Go back to the camera when the browser's "Stop sharing" is clicked
+          next.stream.getVideoTracks()[0]?.addEventListener('ended', () => setSource(WEBCAM_SOURCE));
+        } else if (next.url) {
+          video.src = next.url;
         }
       } catch (err) {
-        setError('Failed to access webcam. Please allow camera permissions.');
-        setIsActive(false);
+        console.error('Failed to open input source:', err);
+        setSourceError(err instanceof InputSourceError ? err.message : 'Failed to open the selected input.');
       }
     };
 
-    if (detectionMode !== 'loading') {
-      startWebcam();
+    if (detector && canOpen) {
+      startSource();
+    } else {
+      setIsActive(false);
     }
 
     return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
+      cancelled = true;
+      if (video) {
+        video.onloadedmetadata = null;
+        video.srcObject = null;
+        video.removeAttribute('src');
       }
-      if (detectionInterval) {
-        clearInterval(detectionInterval);
+      if (image) {
+        image.onload = null;
+        image.removeAttribute('src');
       }
+      opened?.close();
     };
-  }, [detectionMode, onEmotionDetected]);
-
-  const getEmotionColor = (emotion: string) => {
-    const colors = {
-      happy: 'text-yellow-400',
-      sad: 'text-blue-400',
-      angry: 'text-red-400',
-      surprised: 'text-purple-400',
-      neutral: 'text-gray-400',
-      fearful: 'text-green-400',
-      disgusted: 'text-pink-400'
+  }, [detector, source, deviceId, resolution, canOpen]);
+
+  // Pausing freezes the picture as well as detection
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isActive || !video || source.kind === 'image') return;
+    if (isPaused) {
+      video.pause();
+    } else {
+      video.play().catch(() => {});
+    }
+  }, [isActive, isPaused, source]);
+
+  // Stop the detection worker when the feed goes away
+  useEffect(() => () => detector?.dispose?.(), [detector]);
+
+  // Run detection on the open input. Ticks that arrive while a frame is
+  // still being processed are dropped rather than queued.
+  useEffect(() => {
+    if (!isActive || isPaused || !detector) return;
+
+    const input: DetectionInput | null = source.kind === 'image' ? imageRef.current : videoRef.current;
+    if (!input) return;
+
+    const drawFaces = (boxes: OverlayBox[]) => {
+      const canvas = canvasRef.current;
+      if (!canvas || !detector.isML) return;
+      const frame = { ...mediaSize(input), mirror: mirrorRef.current, boxes };
+      if (detector.drawOverlay) {
+        detector.drawOverlay(canvas, frame);
+      } else {
+        drawOverlay(canvas, frame);
+      }
     };
-    return colors[emotion as keyof typeof colors] || 'text-gray-400';
-  };
 
-  const getEmotionEmoji = (emotion: string) => {
-    const emojis = {
-      happy: '😊',
-      sad: '😢',
-      angry: '😠',
-      surprised: '😲',
-      neutral: '😐',
-      fearful: '😨',
-      disgusted: '🤢'
+    const handleObservations = (observations: FaceObservation[], stats: LatencyStats) => {
+      setLatency(stats);
+
+      if (groupModeRef.current) {
+        const faces = trackerRef.current.update(observations);
+        const room = computeRoomMood(faces, roomStrategyRef.current);
+
+        setFaceCount(faces.length);
+        onGroupDetected?.({ faces, room });
+        if (faces.length > 0) {
+          setCurrentEmotion(room.emotion);
+          setConfidence(room.confidence);
+          onEmotionDetected(room.emotion, room.probabilities);
+        }
+
+        // Label every tracked face on the overlay
+        drawFaces(
+          faces.map(face => ({
+            box: face.box,
+            label: `${face.label}: ${face.emotion} ${Math.round(face.confidence * 100)}%`,
+            color: room.singledOut?.id === face.id ? 'rgba(239, 68, 68, 1)' : undefined,
+          }))
+        );
+        return;
+      }
+
+      if (observations.length > 0) {
+        const { box, probabilities } = observations[0];
+        const emotion = topEmotion(probabilities);
+
+        setCurrentEmotion(emotion);
+        setConfidence(probabilities[emotion]);
+        onEmotionDetected(emotion, probabilities);
+        drawFaces([{ box, label: `${emotion} ${Math.round(probabilities[emotion] * 100)}%` }]);
+      } else {
+        drawFaces([]);
+      }
     };
-    return emojis[emotion as keyof typeof emojis] || '😐';
-  };
 
-  const getModeDisplayName = (mode: string) => {
-    switch (mode) {
-      case 'faceapi': return 'AI DETECTING';
-      case 'tensorflow': return 'TF DETECTING';
-      case 'simulation': return 'SIMULATING';
-      default: return 'LOADING';
-    }
-  };
+    const scheduler = new FrameScheduler(() => detector.detect(input), handleObservations);
+    const detectionInterval = setInterval(() => scheduler.tick(), intervalMs ?? detector.intervalMs);
+    return () => {
+      clearInterval(detectionInterval);
+      scheduler.stop();
+    };
+  }, [isActive, isPaused, detector, source, intervalMs, onEmotionDetected, onGroupDetected]);
 
-  const getModeColor = (mode: string) => {
-    switch (mode) {
+  const getModeColor = (kind?: DetectorKind) => {
+    switch (kind) {
       case 'faceapi': return 'text-green-400';
-      case 'tensorflow': return 'text-blue-400';
+      case 'tfjs': return 'text-blue-400';
       case 'simulation': return 'text-yellow-400';
       default: return 'text-gray-400';
     }
@@ -318,7 +317,7 @@ const WebcamFeed: React.FC<WebcamFeedProps> = ({ onEmotionDetected }) => {
         <div className="flex items-center justify-center h-full flex-col space-y-4">
           <Loader className="w-16 h-16 text-blue-500 animate-spin" />
           <p className="text-gray-400 text-center px-4">Initializing emotion detection...</p>
-          <p className="text-gray-500 text-sm">Trying Face-API.js → TensorFlow.js → Simulation</p>
+          <p className="text-gray-500 text-sm">Trying Face-API.js → TF.js FER model → Simulation</p>
         </div>
       </div>
     );
@@ -326,78 +325,196 @@ const WebcamFeed: React.FC<WebcamFeedProps> = ({ onEmotionDetected }) => {
 
   return (
     <div className="relative w-full h-[700px] max-h-[90vh] bg-gray-900 rounded-2xl overflow-hidden border border-gray-700">
-      {error && !isActive ? (
-        <div className="flex items-center justify-center h-full flex-col space-y-4">
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        loop
+        className={`w-full h-full object-cover ${source.kind === 'image' ? 'hidden' : ''} ${mirror ? '-scale-x-100' : ''}`}
+      />
+      <img
+        ref={imageRef}
+        alt=""
+        className={`w-full h-full object-cover ${source.kind === 'image' ? '' : 'hidden'} ${mirror ? '-scale-x-100' : ''}`}
+      />
+
+      {detector?.isML && (
+        <canvas
+          ref={canvasRef}
+          className="absolute top-0 left-0 w-full h-full object-cover pointer-events-none"
+        />
+      )}
+
+      {sourceError && !isActive && (
+        <div className="absolute inset-0 flex items-center justify-center flex-col space-y-4 bg-gray-900">
           <CameraOff className="w-16 h-16 text-gray-500" />
-          <p className="text-gray-400 text-center px-4">{error}</p>
+          <p className="text-gray-400 text-center px-4">{sourceError}</p>
+          {error && <p className="text-gray-500 text-xs text-center px-4">{error}</p>}
+          {modelError && (
+            <p className="text-red-300 text-xs text-center px-4">Face models: {modelError}</p>
+          )}
         </div>
-      ) : (
-        <>
-          <video
-            ref={videoRef}
-            autoPlay
-            playsInline
-            muted
-            className="w-full h-full object-cover"
-          />
-          
-          {detectionMode === 'faceapi' && (
-            <canvas
-              ref={canvasRef}
-              className="absolute top-0 left-0 w-full h-full object-cover pointer-events-none"
-            />
+      )}
+
+      {isCapture && captureOn && awaitingConsent && (
+        <div className="absolute inset-0 flex items-center justify-center bg-gray-900 p-6">
+          <div className="max-w-sm space-y-4 text-center">
+            <ShieldCheck className="w-12 h-12 text-emerald-400 mx-auto" />
+            <h3 className="text-white font-semibold">Turn on your camera?</h3>
+            <ul className="text-gray-300 text-sm space-y-2 text-left list-disc list-inside">
+              <li>Your face is analysed in this browser. Video is never uploaded or saved.</li>
+              <li>Only emotion labels are kept, with your chats, on this device.</li>
+              <li>You can switch the camera off at any time with the button in the corner.</li>
+            </ul>
+            <div className="flex justify-center space-x-3">
+              <button
+                onClick={() => onCameraConsent?.(true)}
+                className="px-4 py-2 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-medium"
+              >
+                Allow camera
+              </button>
+              <button
+                onClick={() => setCaptureOn(false)}
+                className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm"
+              >
+                Not now
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isCapture && !captureOn && (
+        <div className="absolute inset-0 flex items-center justify-center flex-col space-y-4 bg-gray-900">
+          <CameraOff className="w-16 h-16 text-gray-500" />
+          <p className="text-gray-400 text-center px-4">
+            {source.kind === 'screen' ? 'Screen sharing is off.' : 'The camera is off.'} Nothing is being captured.
+          </p>
+        </div>
+      )}
+
+      <div className="absolute bottom-4 left-4 max-w-[50%] flex flex-col items-start space-y-2">
+        {isActive && modelError && (
+          <div className="bg-red-500/20 backdrop-blur-sm rounded-lg px-3 py-2 border border-red-500/50">
+            <div className="flex items-start space-x-2">
+              <AlertCircle className="w-4 h-4 mt-0.5 text-red-400 flex-shrink-0" />
+              <p className="text-red-200 text-xs">Face models failed to load: {modelError}</p>
+            </div>
+          </div>
+        )}
+        <div className="flex items-center space-x-2">
+          {isCapture && (
+            <button
+              onClick={() => setCaptureOn(prev => !prev)}
+              className={`flex items-center space-x-2 px-3 py-2 backdrop-blur-sm rounded-lg border text-xs ${
+                captureOn && isActive
+                  ? 'bg-red-500/30 border-red-500/60 text-red-100'
+                  : 'bg-black/50 border-gray-600 text-gray-300 hover:text-white'
+              }`}
+              aria-pressed={captureOn}
+              title={captureOn ? 'Turn the camera off now' : 'Turn the camera back on'}
+            >
+              {captureOn ? <Camera className="w-4 h-4" /> : <CameraOff className="w-4 h-4" />}
+              <span>
+                {captureOn && isActive ? `${source.kind === 'screen' ? 'Screen' : 'Camera'} on` : 'Camera off'}
+              </span>
+            </button>
           )}
+          <InputSourcePicker source={source} onChange={setSource} />
+          <button
+            onClick={() => setIsPaused(prev => !prev)}
+            className="p-2 bg-black/50 backdrop-blur-sm rounded-lg border border-gray-600 text-gray-300 hover:text-white"
+            aria-label={isPaused ? 'Resume detection' : 'Pause detection'}
+            aria-pressed={isPaused}
+          >
+            {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+          </button>
+          <CameraSettingsMenu
+            settings={cameraSettings}
+            cameras={cameras}
+            defaultIntervalMs={detector?.intervalMs}
+            onChange={setCameraSettings}
+          />
+        </div>
+      </div>
+
+      {isActive && (
+        <>
+          <div className="absolute top-4 left-4 bg-black/50 backdrop-blur-sm rounded-lg px-3 py-2">
+            <div className="flex items-center space-x-2">
+              <div className={`w-2 h-2 rounded-full ${isPaused ? 'bg-gray-500' : 'bg-red-500 animate-pulse'}`}></div>
+              <span className={`text-sm font-medium ${getModeColor(detector?.kind)}`}>
+                {isPaused ? 'PAUSED' : (detector?.label ?? 'LOADING')}
+              </span>
+            </div>
+            {latency.processed > 0 && (
+              <p
+                className="text-gray-400 text-xs mt-1"
+                title={`Last ${Math.round(latency.lastMs)} ms, slowest ${Math.round(latency.maxMs)} ms over the last frames`}
+              >
+                {Math.round(latency.averageMs)} ms/frame · {latency.dropped} dropped
+              </p>
+            )}
+          </div>
           
-          {isActive && (
-            <>
-              <div className="absolute top-4 left-4 bg-black/50 backdrop-blur-sm rounded-lg px-3 py-2">
-                <div className="flex items-center space-x-2">
-                  <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
-                  <span className={`text-sm font-medium ${getModeColor(detectionMode)}`}>
-                    {getModeDisplayName(detectionMode)}
-                  </span>
-                </div>
-              </div>
-              
-              {detectionMode === 'simulation' && (
-                <div className="absolute top-4 right-4 bg-yellow-500/20 backdrop-blur-sm rounded-lg px-3 py-2 border border-yellow-500/50">
-                  <div className="flex items-center space-x-2">
-                    <AlertCircle className="w-4 h-4 text-yellow-400" />
-                    <p className="text-yellow-200 text-xs">Simulation Mode</p>
-                  </div>
-                </div>
+          {detector?.isML && (
+            <div className="absolute top-4 right-4 flex items-center space-x-2">
+              {groupMode && (
+                <select
+                  value={roomStrategy}
+                  onChange={(e) => setRoomStrategy(e.target.value as RoomStrategy)}
+                  className="bg-black/50 backdrop-blur-sm text-gray-200 text-xs rounded-lg px-2 py-2 border border-gray-600 focus:outline-none"
+                  aria-label="Room mood strategy"
+                >
+                  <option value="majority">Room: majority</option>
+                  <option value="extreme">Room: most extreme</option>
+                </select>
               )}
-              
-              <div className="absolute bottom-4 right-4 bg-black/70 backdrop-blur-sm rounded-xl px-4 py-3">
-                <div className="flex items-center space-x-3">
-                  <span className="text-2xl">{getEmotionEmoji(currentEmotion)}</span>
-                  <div>
-                    <p className="text-white text-sm font-medium">Detected:</p>
-                    <p className={`text-sm font-bold capitalize ${getEmotionColor(currentEmotion)}`}>
-                      {currentEmotion}
-                    </p>
-                    {confidence > 0 && (
-                      <p className="text-gray-300 text-xs">
-                        {Math.round(confidence * 100)}% confident
-                      </p>
-                    )}
-                  </div>
-                </div>
+              <button
+                onClick={() => setGroupMode(prev => !prev)}
+                className={`flex items-center space-x-2 backdrop-blur-sm rounded-lg px-3 py-2 text-xs border ${
+                  groupMode
+                    ? 'bg-emerald-500/30 border-emerald-500/60 text-emerald-200'
+                    : 'bg-black/50 border-gray-600 text-gray-300'
+                }`}
+                aria-pressed={groupMode}
+              >
+                <Users className="w-4 h-4" />
+                <span>{groupMode ? `Group · ${faceCount}` : 'Group mode'}</span>
+              </button>
+            </div>
+          )}
+
+          {detector?.kind === 'simulation' && (
+            <div className="absolute top-4 right-4 bg-yellow-500/20 backdrop-blur-sm rounded-lg px-3 py-2 border border-yellow-500/50">
+              <div className="flex items-center space-x-2">
+                <AlertCircle className="w-4 h-4 text-yellow-400" />
+                <p className="text-yellow-200 text-xs">Simulation Mode</p>
               </div>
-            </>
+            </div>
           )}
+
+          <div className="absolute bottom-4 right-4 bg-black/70 backdrop-blur-sm rounded-xl px-4 py-3">
+            <div className="flex items-center space-x-3">
+              <span className="text-2xl">{emotionStyle(currentEmotion).emoji}</span>
+              <div>
+                <p className="text-white text-sm font-medium">{groupMode ? 'Room mood:' : 'Detected:'}</p>
+                <p className={`text-sm font-bold capitalize ${emotionStyle(currentEmotion).color}`}>
+                  {currentEmotion}
+                </p>
+                {confidence > 0 && (
+                  <p className="text-gray-300 text-xs">
+                    {Math.round(confidence * 100)}% confident
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
         </>
       )}
     </div>
   );
 };
 
-// Type declarations
-declare global {
-  interface Window {
-    faceapi: any;
-    tf: any;
-  }
-}
-
 export default WebcamFeed;
\ No newline at end of file
@@ -1,10 +1,28 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { parseReplayScript, ReplayScript } from './utils/replay';
+import { assertLocal } from './utils/privacy';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
+// ?replay=<url> swaps the camera for a scripted emotion timeline
+const loadReplay = async (): Promise<ReplayScript | undefined> => {
+  const url = new URLSearchParams(window.location.search).get('replay');
+  if (!url) return undefined;
+  try {
+    assertLocal(url, 'requests for the replay script');
+    const response = await fetch(url);
+    return parseReplayScript(await response.text());
+  } catch (err) {
+    console.error('Failed to load replay script:', err);
+    return undefined;
+  }
+};
+
+loadReplay().then(replay =>
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App replay={replay} />
+    </StrictMode>
+  )
 );
@@ -0,0 +1,22 @@
+// src/test/setup.ts
+
+import 'fake-indexeddb/auto';
+import { cleanup } from '@testing-library/react';
+import { afterEach, beforeEach, vi } from 'vitest';
+import { clearSessions } from '../utils/sessionStore';
+
+// jsdom doesn't lay anything out
+Element.prototype.scrollIntoView = () => {};
+
+beforeEach(async () => {
+  // Fresh storage per test so sessions and settings don't leak between them
+  await clearSessions();
+  localStorage.clear();
+  // Nothing under test may reach the network
+  vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new Error('Network access in tests'))));
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
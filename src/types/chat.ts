@@ -0,0 +1,60 @@
+// src/types/chat.ts
+
+import { Emotion, EmotionProbabilities } from '../utils/emotions';
+
+export interface Message {
+  id: string;
+  text: string;
+  sender: 'user' | 'bot';
+  timestamp: Date;
+  emotion?: string;
+  // Face readings captured with a user message
+  expressions?: EmotionProbabilities;
+  moodSummary?: string;
+  // Local text sentiment (-1..1) and how far it is from the face (0..1)
+  sentiment?: number;
+  mismatch?: number;
+  // Provider model that wrote a bot reply
+  model?: string;
+  // Bot message sent unprompted after a mood change
+  interjection?: boolean;
+  // Why a user message never got a reply; cleared when it is retried
+  error?: string;
+  // The canned opener, which is never sent to the model
+  greeting?: boolean;
+}
+
+// What the user's face showed when they sent a message that has since been
+// summarised away
+export interface MoodNote {
+  at: number;
+  emotion: Emotion;
+}
+
+// Rolling memory of the turns that no longer fit in the history budget
+export interface ConversationMemory {
+  // Model-written summary of every turn up to `coveredUntil`
+  summary: string;
+  // Id of the newest message folded into the memory
+  coveredUntil: string;
+  moods: MoodNote[];
+}
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: Message[];
+  memory?: ConversationMemory;
+}
+
+export type SessionSummary = Omit<ChatSession, 'messages'> & { messageCount: number };
+
+// One point of a session's recorded mood time series
+export interface EmotionLogEntry {
+  at: number;
+  // Smoothed emotion and how confident the detector was in it
+  emotion: Emotion;
+  confidence: number;
+}
@@ -1,63 +1,124 @@
 // src/utils/api.ts
 
-export async function getAIBotReply(
-  messagesHistory: { role: "user" | "bot"; content: string }[],
-  detectedEmotion: string
-): Promise<string> {
-  const systemPrompt = `
-You are "Mood Spoiler Bot", a sarcastic and witty chatbot who always replies with the opposite mood of the user's current emotion.
+import { ChatMessage, providers } from './providers';
+import { LLMSettings, loadLLMSettings } from './llmConfig';
+import { ThinkFilter } from './thinkFilter';
+import { LLMError } from './apiErrors';
+import { withRetry } from './retry';
+import { assertLocal } from './privacy';
+import { EmotionProbabilities } from './emotions';
+import { CounterMood } from './moodMapping';
+import { GroupReading } from './faceTracker';
+import { WordFaceMismatch } from './textSentiment';
+import { Interjection } from './interjections';
+import { GameRound } from './game';
+import { ConversationMemory, Message } from '../types/chat';
+import { extendMemory, formatTurns } from './contextWindow';
+import { buildSystemPrompt, loadActivePersonaPrompt, PersonaPrompt } from './personas';
 
-1. Carefully analyze the user's spoken message and the detected facial emotion.
-2. If the user's words and detected emotion do not match (e.g., user says they're happy but looks sad), cleverly and humorously point out or tease this discrepancy.
-3. Always reply with the opposite mood of the user's detected emotion.
-4. Your replies should be playful, sarcastic, and entertaining.
-5. Do NOT repeat the user's message or emotion. Respond only as the chatbot.
-6. Do not follow the same format for all your responses.
-7. Talk normally like a human.
+// What the webcam saw while the user wrote their latest message
+export interface EmotionContext {
+  emotion: string;
+  expressions?: EmotionProbabilities;
+  // e.g. "happy → sad over 8s"
+  moodSummary?: string;
+  // Mood the bot should answer with; defaults to the built-in mapping
+  counterMood?: CounterMood;
+  // Everyone in frame while group mode is on
+  group?: GroupReading;
+  // How far the message's wording is from the face it was typed with
+  mismatch?: WordFaceMismatch;
+  // Set when the bot speaks up on its own after a mood change
+  interjection?: Interjection;
+  // A game round in progress, where the user tries to hold a target mood
+  game?: GameRound;
+  // Summary of the turns that no longer fit in the history budget
+  memory?: ConversationMemory;
+}
 
+export interface ReplyOptions {
+  signal?: AbortSignal;
+  // Called before each retry of a failed request, e.g. to say "retrying in 4s"
+  onRetry?: (error: LLMError, attempt: number, delayMs: number) => void;
+  // Streams the reply; called with the visible text so far, <think> blocks removed
+  onPartial?: (text: string) => void;
+  // Defaults to the persona selected in the persona editor
+  persona?: PersonaPrompt;
+}
 
-The detected facial emotion for the latest user message is: "${detectedEmotion}"
-`.trim();
+/**
+ * Asks the selected provider for a reply, retrying transient failures.
+ * Rejects with an LLMError once it gives up, a PrivacyError if strict local
+ * mode forbids the provider, or the AbortError if `signal` fired.
+ */
+export async function getAIBotReply(
+  messagesHistory: { role: "user" | "bot"; content: string }[],
+  emotionContext: EmotionContext,
+  settings: LLMSettings = loadLLMSettings(),
+  { signal, onPartial, onRetry, persona = loadActivePersonaPrompt() }: ReplyOptions = {}
+): Promise<string> {
+  const systemPrompt = buildSystemPrompt(persona, emotionContext);
 
   // Convert your history to the API format
-  const messages = [
+  const messages: ChatMessage[] = [
     { role: "system", content: systemPrompt },
     ...messagesHistory.map(m => ({
-      role: m.role === "bot" ? "assistant" : "user",
+      role: m.role === "bot" ? "assistant" as const : "user" as const,
       content: m.content
     }))
   ];
 
-  try {
-    const response = await fetch('https://router.huggingface.co/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${import.meta.env.VITE_HF_TOKEN}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: "zai-org/GLM-4.5:novita",
-        messages: messages,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`API error ${response.status}: ${errorText}`);
-      return "Sorry, the mood AI is having trouble right now.";
-    }
-
-    const data = await response.json();
-    const reply = data.choices?.[0]?.message?.content;
-
-    if (!reply) {
-      return "Couldn't get bot response!";
-    }
-
-    return reply.replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
-
-  } catch (error) {
-    console.error('Error fetching AI reply:', error);
-    return "Couldn't get bot response!";
-  }
+  const provider = providers[settings.providerId];
+  if (provider.baseUrl) assertLocal(provider.baseUrl, 'your chat');
+  // Once part of a reply is on screen, a retry would start it over
+  let streamed = false;
+
+  const reply = await withRetry(
+    async () => {
+      const filter = new ThinkFilter();
+      const raw = await provider.complete(messages, settings.model, {
+        signal,
+        onToken: onPartial && (token => {
+          streamed = true;
+          onPartial(filter.push(token));
+        }),
+      });
+      return onPartial ? filter.end() : raw.replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
+    },
+    { signal, onRetry, shouldRetry: () => !streamed }
+  );
+
+  if (!reply) throw new LLMError('The model sent back an empty reply.', true);
+  return reply;
+}
+
+const SUMMARY_PROMPT =
+  'You keep the memory of a chat between a user and a sarcastic chatbot. Merge the new turns into the ' +
+  'summary so far. Keep names, facts, topics, running jokes and anything the bot promised, and note how ' +
+  "the user's mood changed. Write at most 150 words of plain prose and reply with the summary only.";
+
+/**
+ * Folds `turns` into the rolling memory, asking the model for a new summary.
+ * Rejects like getAIBotReply when the provider fails.
+ */
+export async function summarizeTurns(
+  memory: ConversationMemory | undefined,
+  turns: Message[],
+  settings: LLMSettings = loadLLMSettings(),
+  signal?: AbortSignal
+): Promise<ConversationMemory> {
+  const provider = providers[settings.providerId];
+  if (provider.baseUrl) assertLocal(provider.baseUrl, 'your chat');
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: SUMMARY_PROMPT },
+    {
+      role: 'user',
+      content: `Summary so far:\n${memory?.summary || '(nothing yet)'}\n\nNew turns:\n${formatTurns(turns)}`,
+    },
+  ];
+  const raw = await withRetry(() => provider.complete(messages, settings.model, { signal }), { signal });
+  const summary = raw.replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
+  if (!summary) throw new LLMError('The model sent back an empty summary.', true);
+  return extendMemory(memory, turns, summary);
 }
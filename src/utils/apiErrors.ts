@@ -0,0 +1,104 @@
+// src/utils/apiErrors.ts
+
+/**
+ * Base class for everything that can go wrong while asking a provider for a
+ * reply. The message is written for the user; `retryable` says whether the
+ * same request might work if sent again.
+ */
+export class LLMError extends Error {
+  constructor(message: string, readonly retryable = false) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+export class MissingTokenError extends LLMError {
+  constructor(readonly providerLabel: string, readonly envVar: string) {
+    super(`${providerLabel} needs an API token. Set ${envVar} in your .env file and restart the dev server.`);
+    this.name = 'MissingTokenError';
+  }
+}
+
+// Sent by our chat proxy with its 401 when the server has no HF_TOKEN
+export const MISSING_TOKEN_CODE = 'missing_token';
+
+export class AuthError extends LLMError {
+  // `code` is the error code from the body, when the server sent one
+  constructor(readonly status: number, detail = '', readonly code?: string) {
+    super(
+      `The API token was rejected (${status})${detail ? `: ${detail}` : ''}. ` +
+        'Check that it is set, valid and allowed to use this model.'
+    );
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitError extends LLMError {
+  // From the Retry-After header, when the server sent one
+  constructor(readonly retryAfterMs?: number) {
+    super('Too many requests. The provider asked us to slow down.', true);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class RequestTimeoutError extends LLMError {
+  constructor(readonly timeoutMs: number) {
+    super(`The provider didn't answer within ${Math.round(timeoutMs / 1000)}s.`, true);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export class ServerError extends LLMError {
+  constructor(readonly status: number, detail = '') {
+    super(`The provider had a problem (${status})${detail ? `: ${detail}` : ''}.`, true);
+    this.name = 'ServerError';
+  }
+}
+
+export class NetworkError extends LLMError {
+  constructor(url: string) {
+    super(`Could not reach ${new URL(url, location.href).host}. Is the server running?`, true);
+    this.name = 'NetworkError';
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// Pulls a short reason out of an error body, JSON or plain text
+const errorDetail = (body: string) => {
+  try {
+    const json = JSON.parse(body);
+    const message = json.error?.message ?? json.error ?? json.message;
+    if (typeof message === 'string') return message.slice(0, 200);
+  } catch {
+    // Not JSON; use the text as is
+  }
+  return body.trim().slice(0, 200);
+};
+
+const errorCode = (body: string) => {
+  try {
+    const code = JSON.parse(body).error?.code;
+    return typeof code === 'string' ? code : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export async function errorFromResponse(response: Response): Promise<LLMError> {
+  const body = await response.text().catch(() => '');
+  const detail = errorDetail(body);
+  const { status } = response;
+  if (status === 401 || status === 403) return new AuthError(status, detail, errorCode(body));
+  if (status === 429) return new RateLimitError(parseRetryAfter(response.headers.get('Retry-After')));
+  if (status === 408) return new LLMError('The provider timed out (408).', true);
+  if (status >= 500) return new ServerError(status, detail);
+  return new LLMError(`The request was rejected (${status})${detail ? `: ${detail}` : ''}.`);
+}
@@ -0,0 +1,73 @@
+// src/utils/cameraSettings.ts
+
+export type ResolutionId = '480p' | '720p' | '1080p';
+
+export const RESOLUTIONS: Record<ResolutionId, { label: string; width: number; height: number }> = {
+  '480p': { label: '640 × 480', width: 640, height: 480 },
+  '720p': { label: '1280 × 720', width: 1280, height: 720 },
+  '1080p': { label: '1920 × 1080', width: 1920, height: 1080 },
+};
+
+// Milliseconds between detections; faster is smoother but heavier on the CPU
+export const DETECTION_INTERVALS = [250, 500, 1000, 2000, 3000];
+
+export interface CameraSettings {
+  // Empty means the browser's default camera
+  deviceId: string;
+  resolution: ResolutionId;
+  // null keeps the active detector's own default
+  intervalMs: number | null;
+  mirror: boolean;
+}
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: '',
+  resolution: '480p',
+  intervalMs: null,
+  mirror: false,
+};
+
+const STORAGE_KEY = 'mood-spoiler:camera-settings';
+
+const isResolutionId = (value: unknown): value is ResolutionId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(RESOLUTIONS, value);
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored === 'object') {
+      return {
+        deviceId: typeof stored.deviceId === 'string' ? stored.deviceId : '',
+        resolution: isResolutionId(stored.resolution) ? stored.resolution : DEFAULT_CAMERA_SETTINGS.resolution,
+        intervalMs: DETECTION_INTERVALS.includes(stored.intervalMs) ? stored.intervalMs : null,
+        mirror: stored.mirror === true,
+      };
+    }
+  } catch {
+    // Ignore corrupt settings and use the defaults
+  }
+  return DEFAULT_CAMERA_SETTINGS;
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Labels stay empty until the user has granted camera access once
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+export const cameraConstraints = ({
+  deviceId,
+  resolution,
+}: Pick<CameraSettings, 'deviceId' | 'resolution'>): MediaTrackConstraints => {
+  const { width, height } = RESOLUTIONS[resolution];
+  return {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+    width: { ideal: width },
+    height: { ideal: height },
+  };
+};
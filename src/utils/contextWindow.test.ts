@@ -0,0 +1,85 @@
+// src/utils/contextWindow.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { Message } from '../types/chat';
+import {
+  describeMemory,
+  describeMoodHistory,
+  estimateTokens,
+  extendMemory,
+  historyToSend,
+  splitHistory,
+  unsummarized,
+} from './contextWindow';
+import { probabilitiesFor } from './emotions';
+
+const message = (id: string, text: string, extra: Partial<Message> = {}): Message => ({
+  id,
+  text,
+  sender: 'user',
+  timestamp: new Date(0),
+  ...extra,
+});
+
+// 40 characters: 10 tokens of text plus 4 of overhead
+const turn = (id: string, extra: Partial<Message> = {}) => message(id, 'x'.repeat(40), extra);
+
+describe('splitHistory', () => {
+  it('keeps the newest turns within the budget and never sends the greeting', () => {
+    const messages = [
+      message('hi', 'Hi there!', { sender: 'bot', greeting: true }),
+      turn('a'),
+      turn('b', { sender: 'bot' }),
+      turn('c'),
+    ];
+    const { recent, older, recentTokens } = splitHistory(messages, 30);
+
+    expect(recent.map(m => m.id)).toEqual(['b', 'c']);
+    expect(older.map(m => m.id)).toEqual(['a']);
+    expect(recentTokens).toBe(28);
+  });
+
+  it('always sends the latest message', () => {
+    const { recent, older } = splitHistory([turn('a'), message('b', 'y'.repeat(400))], 10);
+    expect(recent.map(m => m.id)).toEqual(['b']);
+    expect(older.map(m => m.id)).toEqual(['a']);
+  });
+
+  it('estimates about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('Hello there')).toBe(3);
+  });
+});
+
+describe('conversation memory', () => {
+  const at = (minutes: number) => new Date(minutes * 60000);
+  const older = [
+    turn('a', { timestamp: at(0), expressions: probabilitiesFor('happy', 0.9) }),
+    turn('b', { sender: 'bot', timestamp: at(1) }),
+    turn('c', { timestamp: at(2), expressions: probabilitiesFor('happy', 0.8) }),
+    turn('d', { timestamp: at(5), expressions: probabilitiesFor('sad', 0.7) }),
+  ];
+
+  it('only folds in turns it does not cover yet', () => {
+    const memory = extendMemory(undefined, older.slice(0, 2), 'They said hi.');
+    expect(memory.coveredUntil).toBe('b');
+    expect(unsummarized(older, memory).map(m => m.id)).toEqual(['c', 'd']);
+    expect(unsummarized(older.slice(0, 1), memory)).toEqual([]);
+  });
+
+  it('keeps sending older turns until a summary covers them', () => {
+    const messages = [...older, turn('e')];
+    expect(historyToSend(messages, 14).map(m => m.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+
+    const memory = extendMemory(undefined, older.slice(0, 3), 'They were happy.');
+    expect(historyToSend(messages, 14, memory).map(m => m.id)).toEqual(['d', 'e']);
+  });
+
+  it('records the moods behind summarised messages over time', () => {
+    const memory = extendMemory(extendMemory(undefined, older.slice(0, 2), 'Hi.'), older.slice(2));
+
+    expect(memory.summary).toBe('Hi.');
+    expect(describeMoodHistory(memory.moods)).toBe('min 0–2: happy (2 messages); min 5: sad');
+    expect(describeMemory(memory)).toContain('Hi.\nTheir face during those messages');
+  });
+});
@@ -0,0 +1,159 @@
+// src/utils/contextWindow.ts
+
+import { ConversationMemory, Message, MoodNote } from '../types/chat';
+import { topEmotion } from './emotions';
+
+export interface ContextSettings {
+  // Estimated tokens of chat history sent with each request
+  historyBudget: number;
+  // Ask the model to summarise turns that no longer fit; when off they are
+  // dropped and only their moods are remembered
+  summarize: boolean;
+}
+
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = { historyBudget: 2000, summarize: true };
+
+export const BUDGET_OPTIONS = [500, 1000, 2000, 4000, 8000];
+
+// Rough average for English with BPE tokenizers; close enough for budgeting
+const CHARS_PER_TOKEN = 4;
+// Role markers and separators the chat template adds around each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const messageTokens = (message: Pick<Message, 'text'>) =>
+  estimateTokens(message.text) + MESSAGE_OVERHEAD_TOKENS;
+
+export interface HistorySplit {
+  // Newest turns that fit in the budget, sent as they are
+  recent: Message[];
+  // Everything before them, for the memory
+  older: Message[];
+  recentTokens: number;
+}
+
+// Chats saved or exported before the greeting was flagged open with it
+// unmarked: a bot message with no emotion that isn't an interjection
+export const isUnflaggedGreeting = (message: Record<string, unknown>, index: number) =>
+  index === 0 && message.sender === 'bot' && message.emotion === undefined && message.interjection !== true;
+
+/**
+ * Splits the conversation at the point where the newest turns fill the
+ * budget. The greeting is never sent, and the latest message always is, even
+ * when it alone is over budget.
+ */
+export function splitHistory(messages: Message[], budget: number): HistorySplit {
+  const turns = messages.filter(m => !m.greeting);
+  let recentTokens = 0;
+  let start = turns.length;
+  while (start > 0) {
+    const tokens = messageTokens(turns[start - 1]);
+    if (start < turns.length && recentTokens + tokens > budget) break;
+    recentTokens += tokens;
+    start--;
+  }
+  return { recent: turns.slice(start), older: turns.slice(0, start), recentTokens };
+}
+
+// Older turns the memory doesn't cover yet
+export const unsummarized = (older: Message[], memory?: ConversationMemory) => {
+  if (!memory) return older;
+  const covered = older.findIndex(m => m.id === memory.coveredUntil);
+  // Not found: the covered turns are back within the budget, e.g. after it grew
+  return covered >= 0 ? older.slice(covered + 1) : [];
+};
+
+// Turns sent with a request: the newest that fit in the budget, plus older
+// ones the memory doesn't cover yet, so they aren't lost while a summary is
+// pending or after one failed
+export const historyToSend = (messages: Message[], budget: number, memory?: ConversationMemory) => {
+  const { recent, older } = splitHistory(messages, budget);
+  return [...unsummarized(older, memory), ...recent];
+};
+
+// What the user's face showed with each of their messages
+export const moodNotes = (turns: Message[]): MoodNote[] =>
+  turns
+    .filter(m => m.sender === 'user' && m.expressions)
+    .map(m => ({ at: m.timestamp.getTime(), emotion: topEmotion(m.expressions!) }));
+
+// Folds `turns` into the memory, with the summary the model wrote for them
+export const extendMemory = (
+  memory: ConversationMemory | undefined,
+  turns: Message[],
+  summary = memory?.summary ?? ''
+): ConversationMemory => ({
+  summary,
+  coveredUntil: turns[turns.length - 1]?.id ?? memory?.coveredUntil ?? '',
+  moods: [...(memory?.moods ?? []), ...moodNotes(turns)],
+});
+
+const minutesIn = (at: number, start: number) => Math.floor((at - start) / 60000);
+
+// "min 0–3: happy (4 messages); min 5: sad" - runs of the same mood
+export const describeMoodHistory = (moods: MoodNote[]) => {
+  if (moods.length === 0) return 'not recorded';
+  const start = moods[0].at;
+  const runs: { emotion: string; from: number; to: number; count: number }[] = [];
+  for (const { at, emotion } of moods) {
+    const last = runs[runs.length - 1];
+    if (last?.emotion === emotion) {
+      last.to = at;
+      last.count++;
+    } else {
+      runs.push({ emotion, from: at, to: at, count: 1 });
+    }
+  }
+  return runs
+    .map(({ emotion, from, to, count }) => {
+      const [a, b] = [minutesIn(from, start), minutesIn(to, start)];
+      const span = a === b ? `min ${a}` : `min ${a}–${b}`;
+      return `${span}: ${emotion}${count > 1 ? ` (${count} messages)` : ''}`;
+    })
+    .join('; ');
+};
+
+// Memory block for the system prompt
+export const describeMemory = ({ summary, moods }: ConversationMemory) =>
+  [
+    'Earlier in this chat (those messages are no longer shown to you):',
+    summary.trim() || 'No summary available.',
+    `Their face during those messages, by minutes into the chat: ${describeMoodHistory(moods)}.`,
+    'Feel free to bring up how they felt back then.',
+  ].join('\n');
+
+// The turns to summarise, one line each, with the mood behind user messages
+export const formatTurns = (turns: Message[]) =>
+  turns
+    .map(m =>
+      m.sender === 'user'
+        ? `User${m.expressions ? ` (looked ${topEmotion(m.expressions)})` : ''}: ${m.text}`
+        : `Bot: ${m.text}`
+    )
+    .join('\n');
+
+const STORAGE_KEY = 'mood-spoiler:context';
+
+export const loadContextSettings = (): ContextSettings => {
+  const defaults = DEFAULT_CONTEXT_SETTINGS;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored === 'object') {
+      return {
+        historyBudget:
+          typeof stored.historyBudget === 'number' && stored.historyBudget > 0
+            ? stored.historyBudget
+            : defaults.historyBudget,
+        summarize: typeof stored.summarize === 'boolean' ? stored.summarize : defaults.summarize,
+      };
+    }
+  } catch {
+    // Ignore corrupt settings and use the defaults
+  }
+  return defaults;
+};
+
+export const saveContextSettings = (settings: ContextSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,91 @@
+// src/utils/detection.worker.ts
+
+import * as faceapi from 'face-api.js';
+import {
+  createFaceApiDetector,
+  createTfjsDetector,
+  EmotionDetector,
+  FER_MODEL_URL,
+} from './detectors';
+import { DetectionRequest, DetectionResponse } from './detectionMessages';
+import { drawOverlay } from './overlay';
+
+// face-api.js only recognises browsers and Node. Frames reach it as tensors,
+// never as elements, so stubbing the media classes is enough to satisfy it.
+class NoMediaElement {}
+faceapi.env.setEnv({
+  Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+  CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+  Image: NoMediaElement as unknown as typeof HTMLImageElement,
+  ImageData,
+  Video: NoMediaElement as unknown as typeof HTMLVideoElement,
+  createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+  createImageElement: () => {
+    throw new Error('Images are not available in the detection worker');
+  },
+  fetch: (url, init) => fetch(url, init),
+  readFile: () => Promise.reject(new Error('No filesystem in the detection worker')),
+});
+
+let detector: EmotionDetector | null = null;
+let overlay: OffscreenCanvas | null = null;
+const scratch = new OffscreenCanvas(1, 1);
+const scratchContext = scratch.getContext('2d', { willReadFrequently: true });
+
+const post = (message: DetectionResponse) => self.postMessage(message);
+
+const toTensor = (frame: ImageBitmap) => {
+  if (!scratchContext) throw new Error('OffscreenCanvas 2D context unavailable');
+  scratch.width = frame.width;
+  scratch.height = frame.height;
+  scratchContext.drawImage(frame, 0, 0);
+  frame.close();
+  return faceapi.tf.browser.fromPixels(scratchContext.getImageData(0, 0, scratch.width, scratch.height));
+};
+
+self.addEventListener('message', async (event: MessageEvent<DetectionRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'init': {
+      try {
+        let next: EmotionDetector;
+        if (request.kind === 'faceapi') next = createFaceApiDetector();
+        else if (FER_MODEL_URL) next = createTfjsDetector(FER_MODEL_URL, request.strictLocal);
+        else throw new Error('VITE_FER_MODEL_URL is not set');
+        await next.load();
+        detector = next;
+        post({ type: 'ready' });
+      } catch (err) {
+        post({ type: 'error', message: (err as Error).message });
+      }
+      break;
+    }
+
+    case 'detect': {
+      if (!detector) {
+        request.frame.close();
+        post({ type: 'error', id: request.id, message: 'Detector is not loaded' });
+        break;
+      }
+      let input: faceapi.tf.Tensor3D | null = null;
+      try {
+        input = toTensor(request.frame);
+        const observations = await detector.detect(input);
+        post({ type: 'result', id: request.id, observations });
+      } catch (err) {
+        post({ type: 'error', id: request.id, message: (err as Error).message });
+      } finally {
+        input?.dispose();
+      }
+      break;
+    }
+
+    case 'canvas':
+      overlay = request.canvas;
+      break;
+
+    case 'draw':
+      if (overlay) drawOverlay(overlay, request.frame);
+      break;
+  }
+});
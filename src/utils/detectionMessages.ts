@@ -0,0 +1,21 @@
+// src/utils/detectionMessages.ts
+
+import { DetectorKind } from './detectors';
+import { FaceObservation } from './faceTracker';
+import { OverlayFrame } from './overlay';
+
+// Simulation is cheap enough to stay on the main thread
+export type WorkerDetectorKind = Exclude<DetectorKind, 'simulation'>;
+
+// Main thread → detection worker
+export type DetectionRequest =
+  | { type: 'init'; kind: WorkerDetectorKind; strictLocal: boolean }
+  | { type: 'detect'; id: number; frame: ImageBitmap }
+  | { type: 'canvas'; canvas: OffscreenCanvas }
+  | { type: 'draw'; frame: OverlayFrame };
+
+// Detection worker → main thread
+export type DetectionResponse =
+  | { type: 'ready' }
+  | { type: 'error'; id?: number; message: string }
+  | { type: 'result'; id: number; observations: FaceObservation[] };
@@ -0,0 +1,159 @@
+// src/utils/detectors.ts
+
+import * as faceapi from 'face-api.js';
+import { GraphModel, loadGraphModel } from '@tensorflow/tfjs-converter';
+import { Emotion, EMOTIONS, EmotionProbabilities, probabilitiesFor } from './emotions';
+import { FaceBox, FaceObservation } from './faceTracker';
+import { OverlayFrame } from './overlay';
+import { loadFaceModels } from './faceModels';
+import { RandomSource, simulationRandom } from './random';
+import { assertLocal, isStrictLocal } from './privacy';
+
+export type DetectorKind = 'faceapi' | 'tfjs' | 'simulation';
+
+// Live streams and video files play in a <video>, still images in an <img>.
+// Inside the detection worker frames arrive as [height, width, 3] tensors.
+export type DetectionInput = HTMLVideoElement | HTMLImageElement | faceapi.tf.Tensor3D;
+
+const tf = faceapi.tf;
+
+// Duck-typed so it also works in the worker, where there are no DOM classes
+export const mediaSize = (input: DetectionInput) => {
+  if (input instanceof tf.Tensor) return { width: input.shape[1], height: input.shape[0] };
+  if ('videoWidth' in input) return { width: input.videoWidth, height: input.videoHeight };
+  return { width: input.naturalWidth, height: input.naturalHeight };
+};
+
+export interface EmotionDetector {
+  kind: DetectorKind;
+  // Short name for the status badge
+  label: string;
+  // Whether readings come from a real model rather than random numbers
+  isML: boolean;
+  intervalMs: number;
+  // Rejects with a descriptive error when the backend can't run here
+  load(): Promise<void>;
+  detect(input: DetectionInput): Promise<FaceObservation[]>;
+  // Detectors that own the overlay canvas (the worker) draw it themselves
+  drawOverlay?(canvas: HTMLCanvasElement, frame: OverlayFrame): void;
+  dispose?(): void;
+}
+
+// face-api.js boxes keep their coordinates in private fields, which don't
+// survive postMessage; copy them into a plain FaceBox
+const toFaceBox = ({ x, y, width, height }: FaceBox): FaceBox => ({ x, y, width, height });
+
+const toProbabilities = (scores: Partial<Record<Emotion, number>>) =>
+  Object.fromEntries(EMOTIONS.map(e => [e, scores[e] ?? 0])) as EmotionProbabilities;
+
+// face-api.js tiny face detector + expression net, both from src/models
+export const createFaceApiDetector = (): EmotionDetector => ({
+  kind: 'faceapi',
+  label: 'AI DETECTING',
+  isML: true,
+  intervalMs: 1000,
+  load: () => loadFaceModels(),
+  async detect(input) {
+    const detections = await faceapi
+      .detectAllFaces(input, new faceapi.TinyFaceDetectorOptions())
+      .withFaceExpressions();
+    return detections.map(d => ({
+      box: toFaceBox(d.detection.box),
+      probabilities: toProbabilities(d.expressions as unknown as Record<Emotion, number>),
+    }));
+  },
+});
+
+// Output order of FER2013-trained classifiers
+const FER_LABELS: Emotion[] = ['angry', 'disgusted', 'fearful', 'happy', 'sad', 'surprised', 'neutral'];
+
+// No FER model ships with the app, so this backend only exists when one is
+// configured
+export const FER_MODEL_URL: string | undefined = import.meta.env.VITE_FER_MODEL_URL || undefined;
+
+/**
+ * A FER2013-style classifier (TF.js graph model) run on each face the tiny
+ * face detector finds. Expects grayscale input scaled to [-1, 1] and seven
+ * softmax outputs in FER_LABELS order; the input size is read from the model.
+ * It replaces the expression net, not the face detector they share.
+ */
+// `strictLocal` is passed in because workers can't read the privacy settings
+export const createTfjsDetector = (modelUrl: string, strictLocal = isStrictLocal()): EmotionDetector => {
+  let model: GraphModel | null = null;
+  let inputSize: [number, number] = [48, 48];
+
+  return {
+    kind: 'tfjs',
+    label: 'FER DETECTING',
+    isML: true,
+    intervalMs: 1000,
+    async load() {
+      assertLocal(modelUrl, 'requests for the FER model', strictLocal);
+      await loadFaceModels(['tiny_face_detector_model']);
+      try {
+        model = await loadGraphModel(modelUrl);
+      } catch (err) {
+        throw new Error(`FER model could not be loaded from ${modelUrl}: ${(err as Error).message}`);
+      }
+      const [, height, width] = model.inputs[0].shape ?? [];
+      if (height && width && height > 0 && width > 0) inputSize = [height, width];
+    },
+    async detect(input) {
+      const net = model;
+      if (!net) return [];
+      const faces = await faceapi.detectAllFaces(input, new faceapi.TinyFaceDetectorOptions());
+      if (faces.length === 0) return [];
+
+      const { width, height } = mediaSize(input);
+      const scores = tf.tidy(() => {
+        const pixels = input instanceof tf.Tensor ? input : tf.browser.fromPixels(input);
+        const frame = pixels.toFloat().expandDims(0) as faceapi.tf.Tensor4D;
+        // cropAndResize takes normalised [y1, x1, y2, x2] boxes
+        const boxes = faces.map(({ box }) => [
+          box.top / height,
+          box.left / width,
+          box.bottom / height,
+          box.right / width,
+        ]);
+        const crops = tf.image.cropAndResize(frame, boxes, faces.map(() => 0), inputSize);
+        const gray = crops.mean(3).expandDims(3).div(127.5).sub(1);
+        return (net.predict(gray) as faceapi.tf.Tensor).arraySync() as number[][];
+      });
+
+      return faces.map(({ box }, i) => ({
+        box: toFaceBox(box),
+        probabilities: toProbabilities(
+          Object.fromEntries(FER_LABELS.map((label, j) => [label, scores[i][j]]))
+        ),
+      }));
+    },
+  };
+};
+
+const SIMULATED_EMOTIONS: Emotion[] = ['happy', 'sad', 'angry', 'surprised', 'neutral', 'fearful'];
+
+// Random readings so the rest of the app can be tried without any model.
+// Pass a seeded source to get the same sequence on every run.
+export const createSimulationDetector = (random: RandomSource = simulationRandom()): EmotionDetector => ({
+  kind: 'simulation',
+  label: 'SIMULATING',
+  isML: false,
+  intervalMs: 3000,
+  load: async () => {},
+  async detect(input) {
+    const emotion = SIMULATED_EMOTIONS[Math.floor(random() * SIMULATED_EMOTIONS.length)];
+    const confidence = random() * 0.4 + 0.6;
+    return [
+      {
+        box: { x: 0, y: 0, ...mediaSize(input) },
+        probabilities: probabilitiesFor(emotion, confidence),
+      },
+    ];
+  },
+});
+
+export const createDetectors = (): EmotionDetector[] => [
+  createFaceApiDetector(),
+  ...(FER_MODEL_URL ? [createTfjsDetector(FER_MODEL_URL)] : []),
+  createSimulationDetector(),
+];
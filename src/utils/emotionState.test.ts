@@ -0,0 +1,81 @@
+// src/utils/emotionState.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { EmotionSmoother, SmoothingConfig } from './emotionState';
+import { Emotion, EmotionProbabilities, emptyProbabilities, probabilitiesFor } from './emotions';
+
+const frame = (scores: Partial<EmotionProbabilities>): EmotionProbabilities => ({
+  ...emptyProbabilities(),
+  ...scores,
+});
+
+// Stable emotion after each frame
+const run = (config: Partial<SmoothingConfig>, frames: EmotionProbabilities[]): Emotion[] => {
+  const smoother = new EmotionSmoother(config);
+  return frames.map(f => smoother.update(f).stable);
+};
+
+// No smoothing, so each rule can be checked on its own
+const raw = { alpha: 1, confidenceThreshold: 0, hysteresisMargin: 0, minHoldFrames: 1 };
+
+describe('EmotionSmoother', () => {
+  it('ignores a single-frame spike and settles after a few frames with EMA', () => {
+    const neutral = probabilitiesFor('neutral', 1);
+    const happy = probabilitiesFor('happy', 1);
+
+    expect(run({}, [neutral, happy, neutral, neutral])).toEqual(['neutral', 'neutral', 'neutral', 'neutral']);
+    // Smoothed happy goes 0.3, 0.51, 0.66, 0.76: it has to clear the threshold
+    // and the margin, then hold for two frames
+    expect(run({}, [neutral, happy, happy, happy, happy])).toEqual([
+      'neutral', 'neutral', 'neutral', 'neutral', 'happy',
+    ]);
+  });
+
+  it('counts votes rather than scores with majority smoothing', () => {
+    const weakHappy = Array(3).fill(probabilitiesFor('happy', 0.4));
+
+    expect(run({ method: 'majority' }, weakHappy)).toEqual(['neutral', 'happy', 'happy']);
+    expect(run({ method: 'ema' }, weakHappy)).toEqual(['neutral', 'neutral', 'neutral']);
+  });
+
+  it('needs a majority of the window before switching', () => {
+    const neutral = probabilitiesFor('neutral', 0.9);
+    const happy = probabilitiesFor('happy', 0.9);
+    const config = { method: 'majority' as const, windowSize: 5, minHoldFrames: 1 };
+
+    expect(run(config, [neutral, neutral, happy, happy, happy])).toEqual([
+      'neutral', 'neutral', 'neutral', 'neutral', 'happy',
+    ]);
+  });
+
+  it('stays put below the confidence threshold', () => {
+    const config = { ...raw, confidenceThreshold: 0.6 };
+
+    expect(run(config, [probabilitiesFor('happy', 0.5)])).toEqual(['neutral']);
+    expect(run(config, [probabilitiesFor('happy', 0.7)])).toEqual(['happy']);
+  });
+
+  it('requires the challenger to lead by the hysteresis margin', () => {
+    const config = { ...raw, hysteresisMargin: 0.2 };
+
+    expect(run(config, [frame({ happy: 0.5, neutral: 0.4 })])).toEqual(['neutral']);
+    expect(run(config, [frame({ happy: 0.6, neutral: 0.35 })])).toEqual(['happy']);
+  });
+
+  it('switches only after the challenger wins minHoldFrames in a row', () => {
+    const config = { ...raw, minHoldFrames: 3 };
+    const happy = probabilitiesFor('happy', 0.9);
+    const neutral = probabilitiesFor('neutral', 0.9);
+
+    expect(run(config, [happy, happy, neutral, happy, happy])).toEqual(Array(5).fill('neutral'));
+    expect(run(config, [happy, happy, happy])).toEqual(['neutral', 'neutral', 'happy']);
+  });
+
+  it('starts over from neutral after a reset', () => {
+    const smoother = new EmotionSmoother(raw);
+    smoother.update(probabilitiesFor('sad', 0.9));
+    smoother.reset();
+
+    expect(smoother.update(probabilitiesFor('neutral', 0.9)).stable).toBe('neutral');
+  });
+});
@@ -0,0 +1,135 @@
+// src/utils/emotionState.ts
+
+import {
+  Emotion,
+  EMOTIONS,
+  EmotionProbabilities,
+  emptyProbabilities,
+  topEmotion,
+} from './emotions';
+
+export interface SmoothingConfig {
+  method: 'ema' | 'majority';
+  // EMA weight of the newest frame (0-1)
+  alpha: number;
+  // Number of frames the majority vote looks back over
+  windowSize: number;
+  // Minimum smoothed probability before a new emotion can take over
+  confidenceThreshold: number;
+  // How far the challenger must lead the current stable emotion
+  hysteresisMargin: number;
+  // Consecutive frames the challenger must keep winning before switching
+  minHoldFrames: number;
+}
+
+export interface EmotionState {
+  stable: Emotion;
+  confidence: number;
+  probabilities: EmotionProbabilities;
+}
+
+export const DEFAULT_SMOOTHING: SmoothingConfig = {
+  method: 'ema',
+  alpha: 0.3,
+  windowSize: 5,
+  confidenceThreshold: 0.45,
+  hysteresisMargin: 0.1,
+  minHoldFrames: 2,
+};
+
+/**
+ * Turns a noisy per-frame stream of expression scores into a settled mood.
+ * Feed it every detection with `update` and read the stable emotion back.
+ */
+export class EmotionSmoother {
+  private readonly config: SmoothingConfig;
+  private smoothed: EmotionProbabilities | null = null;
+  private window: EmotionProbabilities[] = [];
+  private stable: Emotion = 'neutral';
+  private challenger: Emotion | null = null;
+  private challengerFrames = 0;
+
+  constructor(config: Partial<SmoothingConfig> = {}) {
+    this.config = { ...DEFAULT_SMOOTHING, ...config };
+  }
+
+  update(frame: EmotionProbabilities): EmotionState {
+    const probabilities = this.smooth(frame);
+    const candidate = this.candidate(probabilities);
+    const { confidenceThreshold, hysteresisMargin, minHoldFrames } = this.config;
+
+    const canTakeOver =
+      candidate.emotion !== this.stable &&
+      candidate.score >= confidenceThreshold &&
+      candidate.score - candidate.stableScore >= hysteresisMargin;
+
+    if (!canTakeOver) {
+      this.challenger = null;
+      this.challengerFrames = 0;
+    } else if (candidate.emotion === this.challenger) {
+      this.challengerFrames++;
+    } else {
+      this.challenger = candidate.emotion;
+      this.challengerFrames = 1;
+    }
+
+    if (this.challenger && this.challengerFrames >= minHoldFrames) {
+      this.stable = this.challenger;
+      this.challenger = null;
+      this.challengerFrames = 0;
+    }
+
+    return this.state(probabilities);
+  }
+
+  reset() {
+    this.smoothed = null;
+    this.window = [];
+    this.stable = 'neutral';
+    this.challenger = null;
+    this.challengerFrames = 0;
+  }
+
+  private smooth(frame: EmotionProbabilities): EmotionProbabilities {
+    const { method, alpha, windowSize } = this.config;
+
+    if (method === 'ema') {
+      const previous = this.smoothed ?? frame;
+      this.smoothed = emptyProbabilities();
+      for (const e of EMOTIONS) {
+        this.smoothed[e] = alpha * frame[e] + (1 - alpha) * previous[e];
+      }
+      return this.smoothed;
+    }
+
+    this.window = [...this.window, frame].slice(-windowSize);
+    const average = emptyProbabilities();
+    for (const e of EMOTIONS) {
+      average[e] = this.window.reduce((sum, f) => sum + f[e], 0) / this.window.length;
+    }
+    this.smoothed = average;
+    return average;
+  }
+
+  // EMA uses the top smoothed score; majority uses each frame's vote share
+  private candidate(probabilities: EmotionProbabilities) {
+    if (this.config.method === 'ema') {
+      const emotion = topEmotion(probabilities);
+      return { emotion, score: probabilities[emotion], stableScore: probabilities[this.stable] };
+    }
+
+    const votes = emptyProbabilities();
+    for (const f of this.window) votes[topEmotion(f)]++;
+    const emotion = topEmotion(votes);
+    const share = (e: Emotion) => votes[e] / this.window.length;
+    return { emotion, score: share(emotion), stableScore: share(this.stable) };
+  }
+
+  private state(probabilities: EmotionProbabilities): EmotionState {
+    return {
+      stable: this.stable,
+      confidence: probabilities[this.stable],
+      probabilities: { ...probabilities },
+    };
+  }
+}
@@ -0,0 +1,42 @@
+// src/utils/emotionTimeline.ts
+
+import { Emotion, EmotionProbabilities } from './emotions';
+
+export interface EmotionSample {
+  at: number;
+  // Smoothed emotion at that moment
+  emotion: Emotion;
+  // Raw per-frame expression scores
+  probabilities: EmotionProbabilities;
+}
+
+// How much history App keeps around for the chat to look back on
+export const TIMELINE_RETENTION_MS = 5 * 60 * 1000;
+
+export const appendSample = (timeline: EmotionSample[], sample: EmotionSample) => [
+  ...timeline.filter(s => sample.at - s.at <= TIMELINE_RETENTION_MS),
+  sample,
+];
+
+/**
+ * Describes how the smoothed mood moved between `from` and `to`,
+ * e.g. "happy → sad over 8s" or "neutral throughout 5s".
+ */
+export function summarizeTimeline(
+  timeline: EmotionSample[],
+  from: number,
+  to: number
+): string | undefined {
+  const window = timeline.filter(s => s.at >= from && s.at <= to);
+  if (window.length === 0) return undefined;
+
+  const sequence = window.reduce<Emotion[]>(
+    (acc, s) => (acc[acc.length - 1] === s.emotion ? acc : [...acc, s.emotion]),
+    []
+  );
+  const seconds = Math.max(1, Math.round((to - from) / 1000));
+
+  return sequence.length === 1
+    ? `${sequence[0]} throughout ${seconds}s`
+    : `${sequence.join(' → ')} over ${seconds}s`;
+}
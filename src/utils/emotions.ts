@@ -0,0 +1,40 @@
+// src/utils/emotions.ts
+
+// The seven expressions face-api.js' expression net scores
+export const EMOTIONS = [
+  'angry',
+  'disgusted',
+  'fearful',
+  'happy',
+  'neutral',
+  'sad',
+  'surprised',
+] as const;
+
+export type Emotion = (typeof EMOTIONS)[number];
+
+export type EmotionProbabilities = Record<Emotion, number>;
+
+export const isEmotion = (value: unknown): value is Emotion =>
+  typeof value === 'string' && (EMOTIONS as readonly string[]).includes(value);
+
+export const emptyProbabilities = (): EmotionProbabilities =>
+  Object.fromEntries(EMOTIONS.map(e => [e, 0])) as EmotionProbabilities;
+
+// Spreads whatever confidence is left over evenly across the other emotions
+export const probabilitiesFor = (emotion: Emotion, confidence: number): EmotionProbabilities => {
+  const rest = (1 - confidence) / (EMOTIONS.length - 1);
+  return Object.fromEntries(
+    EMOTIONS.map(e => [e, e === emotion ? confidence : rest])
+  ) as EmotionProbabilities;
+};
+
+export const topEmotion = (probabilities: EmotionProbabilities): Emotion =>
+  EMOTIONS.reduce((a, b) => (probabilities[a] >= probabilities[b] ? a : b));
+
+// "happy 62%, neutral 20%, sad 9%" - highest first, negligible scores left out
+export const formatProbabilities = (probabilities: EmotionProbabilities): string =>
+  EMOTIONS.filter(e => probabilities[e] >= 0.01)
+    .sort((a, b) => probabilities[b] - probabilities[a])
+    .map(e => `${e} ${Math.round(probabilities[e] * 100)}%`)
+    .join(', ');
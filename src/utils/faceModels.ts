@@ -0,0 +1,154 @@
+// src/utils/faceModels.ts
+
+import * as faceapi from 'face-api.js';
+import tinyFaceDetectorManifestUrl from '../models/tiny_face_detector_model-weights_manifest.json?url';
+import tinyFaceDetectorShardUrl from '../models/tiny_face_detector_model-shard1?url';
+import faceExpressionManifestUrl from '../models/face_expression_model-weights_manifest.json?url';
+import faceExpressionShardUrl from '../models/face_expression_model-shard1?url';
+
+type WeightsManifest = faceapi.tf.io.WeightsManifestConfig;
+
+export type BundledModelName = 'tiny_face_detector_model' | 'face_expression_model';
+
+interface BundledModel {
+  name: BundledModelName;
+  manifestUrl: string;
+  // Vite fingerprints every asset, so shard paths from the manifest are
+  // resolved through this table instead of relative to the manifest URL.
+  shardUrls: Record<string, string>;
+  net: faceapi.NeuralNetwork<unknown>;
+}
+
+export class ModelLoadError extends Error {
+  constructor(
+    public readonly model: string,
+    public readonly file: string,
+    message: string
+  ) {
+    super(`${model}: ${message} (${file})`);
+    this.name = 'ModelLoadError';
+  }
+}
+
+const bundledModels = (): BundledModel[] => [
+  {
+    name: 'tiny_face_detector_model',
+    manifestUrl: tinyFaceDetectorManifestUrl,
+    shardUrls: { 'tiny_face_detector_model-shard1': tinyFaceDetectorShardUrl },
+    net: faceapi.nets.tinyFaceDetector,
+  },
+  {
+    name: 'face_expression_model',
+    manifestUrl: faceExpressionManifestUrl,
+    shardUrls: { 'face_expression_model-shard1': faceExpressionShardUrl },
+    net: faceapi.nets.faceExpressionNet,
+  },
+];
+
+const BYTES_PER_ELEMENT: Record<string, number> = {
+  float32: 4,
+  int32: 4,
+  bool: 1,
+  uint8: 1,
+  uint16: 2,
+};
+
+// Number of bytes the shards must contain according to the manifest
+const expectedByteLength = (manifest: WeightsManifest) =>
+  manifest
+    .flatMap(group => group.weights)
+    .reduce((total, entry) => {
+      const size = entry.shape.reduce((a, b) => a * b, 1);
+      const dtype = entry.quantization?.dtype ?? entry.dtype;
+      return total + size * (BYTES_PER_ELEMENT[dtype] ?? 4);
+    }, 0);
+
+const fetchFile = async (model: string, url: string) => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    throw new ModelLoadError(model, url, `request failed: ${(err as Error).message}`);
+  }
+  if (!response.ok) {
+    throw new ModelLoadError(model, url, `missing file (HTTP ${response.status})`);
+  }
+  return response;
+};
+
+const loadManifest = async (model: BundledModel): Promise<WeightsManifest> => {
+  const response = await fetchFile(model.name, model.manifestUrl);
+  let manifest: unknown;
+  try {
+    manifest = await response.json();
+  } catch {
+    throw new ModelLoadError(model.name, model.manifestUrl, 'manifest is not valid JSON');
+  }
+
+  const isValid =
+    Array.isArray(manifest) &&
+    manifest.length > 0 &&
+    manifest.every(
+      group =>
+        Array.isArray(group?.paths) &&
+        group.paths.length > 0 &&
+        Array.isArray(group?.weights)
+    );
+  if (!isValid) {
+    throw new ModelLoadError(model.name, model.manifestUrl, 'manifest is malformed');
+  }
+  return manifest as WeightsManifest;
+};
+
+const loadModel = async (model: BundledModel) => {
+  const manifest = await loadManifest(model);
+
+  const shards = await Promise.all(
+    manifest
+      .flatMap(group => group.paths)
+      .map(async path => {
+        const url = model.shardUrls[path];
+        if (!url) {
+          throw new ModelLoadError(model.name, path, 'shard is not bundled with the app');
+        }
+        const response = await fetchFile(model.name, url);
+        return response.arrayBuffer();
+      })
+  );
+
+  const buffer = faceapi.tf.io.concatenateArrayBuffers(shards);
+  const expected = expectedByteLength(manifest);
+  if (buffer.byteLength !== expected) {
+    throw new ModelLoadError(
+      model.name,
+      model.manifestUrl,
+      `shard data is corrupt (expected ${expected} bytes, got ${buffer.byteLength})`
+    );
+  }
+
+  const weights = manifest.flatMap(group => group.weights);
+  try {
+    model.net.loadFromWeightMap(faceapi.tf.io.decodeWeights(buffer, weights));
+  } catch (err) {
+    throw new ModelLoadError(
+      model.name,
+      model.manifestUrl,
+      `weights could not be decoded: ${(err as Error).message}`
+    );
+  }
+};
+
+/**
+ * Loads the tiny face detector and expression nets from the weights bundled
+ * in src/models, so detection works without any network access.
+ * Rejects with a ModelLoadError naming the missing or corrupt file.
+ */
+export async function loadFaceModels(
+  names: BundledModelName[] = ['tiny_face_detector_model', 'face_expression_model']
+): Promise<void> {
+  await Promise.all(
+    bundledModels()
+      .filter(model => names.includes(model.name) && !model.net.isLoaded)
+      .map(loadModel)
+  );
+}
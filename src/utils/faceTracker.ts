@@ -0,0 +1,182 @@
+// src/utils/faceTracker.ts
+
+import { Emotion, EMOTIONS, EmotionProbabilities, emptyProbabilities, topEmotion } from './emotions';
+import { EmotionSmoother, SmoothingConfig } from './emotionState';
+
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FaceObservation {
+  box: FaceBox;
+  probabilities: EmotionProbabilities;
+}
+
+export interface TrackedFace {
+  id: number;
+  // Display label, e.g. "P2"
+  label: string;
+  box: FaceBox;
+  emotion: Emotion;
+  confidence: number;
+  probabilities: EmotionProbabilities;
+}
+
+export type RoomStrategy = 'majority' | 'extreme';
+
+export interface RoomMood {
+  strategy: RoomStrategy;
+  emotion: Emotion;
+  confidence: number;
+  probabilities: EmotionProbabilities;
+  // The face that drives the room mood under the "extreme" strategy
+  singledOut?: TrackedFace;
+}
+
+export interface GroupReading {
+  faces: TrackedFace[];
+  room: RoomMood;
+}
+
+interface Track {
+  id: number;
+  box: FaceBox;
+  missed: number;
+  smoother: EmotionSmoother;
+  face: TrackedFace;
+}
+
+export interface TrackerConfig {
+  // Minimum box overlap for a detection to continue an existing track
+  minIoU: number;
+  // Frames a face may go undetected before its ID is dropped
+  maxMissedFrames: number;
+  smoothing?: Partial<SmoothingConfig>;
+}
+
+const DEFAULT_TRACKER: TrackerConfig = {
+  minIoU: 0.3,
+  maxMissedFrames: 3,
+};
+
+const iou = (a: FaceBox, b: FaceBox) => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+};
+
+/**
+ * Keeps stable IDs for faces across frames by matching each new detection to
+ * the previous box it overlaps most. Every face gets its own smoother.
+ */
+export class FaceTracker {
+  private readonly config: TrackerConfig;
+  private tracks: Track[] = [];
+  private nextId = 1;
+
+  constructor(config: Partial<TrackerConfig> = {}) {
+    this.config = { ...DEFAULT_TRACKER, ...config };
+  }
+
+  update(observations: FaceObservation[]): TrackedFace[] {
+    const unmatched = new Set(this.tracks);
+
+    // Greedy matching, best overlaps first
+    const pairs = observations
+      .flatMap((obs, index) => this.tracks.map(track => ({ index, track, score: iou(obs.box, track.box) })))
+      .filter(pair => pair.score >= this.config.minIoU)
+      .sort((a, b) => b.score - a.score);
+
+    const assigned = new Map<number, Track>();
+    for (const { index, track } of pairs) {
+      if (assigned.has(index) || !unmatched.has(track)) continue;
+      assigned.set(index, track);
+      unmatched.delete(track);
+    }
+
+    observations.forEach((obs, index) => {
+      let track = assigned.get(index);
+      if (!track) {
+        track = this.createTrack(obs.box);
+        this.tracks.push(track);
+      }
+      const state = track.smoother.update(obs.probabilities);
+      track.box = obs.box;
+      track.missed = 0;
+      track.face = {
+        ...track.face,
+        box: obs.box,
+        emotion: state.stable,
+        confidence: state.confidence,
+        probabilities: state.probabilities,
+      };
+    });
+
+    for (const track of unmatched) track.missed++;
+    this.tracks = this.tracks.filter(track => track.missed <= this.config.maxMissedFrames);
+
+    return this.tracks
+      .filter(track => track.missed === 0)
+      .map(track => track.face)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  reset() {
+    this.tracks = [];
+    this.nextId = 1;
+  }
+
+  private createTrack(box: FaceBox): Track {
+    const id = this.nextId++;
+    return {
+      id,
+      box,
+      missed: 0,
+      smoother: new EmotionSmoother(this.config.smoothing),
+      face: {
+        id,
+        label: `P${id}`,
+        box,
+        emotion: 'neutral',
+        confidence: 0,
+        probabilities: emptyProbabilities(),
+      },
+    };
+  }
+}
+
+// Summarises everyone in frame as a single room-level mood
+export function computeRoomMood(faces: TrackedFace[], strategy: RoomStrategy): RoomMood {
+  if (faces.length === 0) {
+    return { strategy, emotion: 'neutral', confidence: 0, probabilities: emptyProbabilities() };
+  }
+
+  if (strategy === 'extreme') {
+    // Strongest non-neutral expression in the room wins
+    const singledOut = faces.reduce((a, b) => {
+      const strength = (f: TrackedFace) => (f.emotion === 'neutral' ? 0 : f.confidence);
+      return strength(b) > strength(a) ? b : a;
+    });
+    return {
+      strategy,
+      emotion: singledOut.emotion,
+      confidence: singledOut.confidence,
+      probabilities: singledOut.probabilities,
+      singledOut,
+    };
+  }
+
+  const votes = emptyProbabilities();
+  const probabilities = emptyProbabilities();
+  for (const face of faces) {
+    votes[face.emotion]++;
+    for (const e of EMOTIONS) probabilities[e] += face.probabilities[e] / faces.length;
+  }
+  const emotion = topEmotion(votes);
+  return { strategy, emotion, confidence: votes[emotion] / faces.length, probabilities };
+}
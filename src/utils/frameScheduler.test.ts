@@ -0,0 +1,47 @@
+// src/utils/frameScheduler.test.ts
+
+import { describe, expect, it, vi } from 'vitest';
+import { FrameScheduler } from './frameScheduler';
+
+const deferred = () => {
+  let resolve!: (value: string) => void;
+  const promise = new Promise<string>(r => (resolve = r));
+  return { promise, resolve };
+};
+
+describe('FrameScheduler', () => {
+  it('drops ticks while a frame is in flight instead of queueing them', async () => {
+    const frames = [deferred(), deferred()];
+    const task = vi.fn(() => frames[task.mock.calls.length - 1].promise);
+    const onResult = vi.fn();
+    const scheduler = new FrameScheduler(task, onResult);
+
+    scheduler.tick();
+    scheduler.tick();
+    scheduler.tick();
+    expect(task).toHaveBeenCalledTimes(1);
+
+    frames[0].resolve('first');
+    await vi.waitFor(() => expect(onResult).toHaveBeenCalledTimes(1));
+    expect(onResult.mock.calls[0][0]).toBe('first');
+    expect(onResult.mock.calls[0][1]).toMatchObject({ processed: 1, dropped: 2 });
+
+    await Promise.resolve();
+    scheduler.tick();
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores results that arrive after stop', async () => {
+    const frame = deferred();
+    const onResult = vi.fn();
+    const scheduler = new FrameScheduler(() => frame.promise, onResult);
+
+    scheduler.tick();
+    scheduler.stop();
+    frame.resolve('late');
+    await frame.promise;
+    await Promise.resolve();
+
+    expect(onResult).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+// src/utils/frameScheduler.ts
+
+export interface LatencyStats {
+  // Capture-to-result time of the most recent frame
+  lastMs: number;
+  averageMs: number;
+  maxMs: number;
+  processed: number;
+  // Ticks skipped because the previous frame was still being processed
+  dropped: number;
+}
+
+export const emptyLatencyStats = (): LatencyStats => ({
+  lastMs: 0,
+  averageMs: 0,
+  maxMs: 0,
+  processed: 0,
+  dropped: 0,
+});
+
+/**
+ * Runs at most one detection at a time. A tick that arrives while a frame is
+ * still in flight is dropped instead of queued, so a slow detector can never
+ * pile up overlapping calls. Average and max cover the last `windowSize` frames.
+ */
+export class FrameScheduler<T> {
+  private busy = false;
+  private stopped = false;
+  private recent: number[] = [];
+  private totals = emptyLatencyStats();
+
+  constructor(
+    private readonly task: () => Promise<T>,
+    private readonly onResult: (result: T, stats: LatencyStats) => void,
+    private readonly windowSize = 20
+  ) {}
+
+  tick() {
+    if (this.stopped) return;
+    if (this.busy) {
+      this.totals.dropped++;
+      return;
+    }
+
+    this.busy = true;
+    const startedAt = performance.now();
+    this.task()
+      .then(result => {
+        if (this.stopped) return;
+        this.record(performance.now() - startedAt);
+        this.onResult(result, this.stats);
+      })
+      .catch(err => console.error('Frame processing failed:', err))
+      .finally(() => {
+        this.busy = false;
+      });
+  }
+
+  // Ignore any result still in flight, e.g. when the input changes
+  stop() {
+    this.stopped = true;
+  }
+
+  get stats(): LatencyStats {
+    return { ...this.totals };
+  }
+
+  private record(latencyMs: number) {
+    this.recent = [...this.recent, latencyMs].slice(-this.windowSize);
+    this.totals = {
+      ...this.totals,
+      lastMs: latencyMs,
+      averageMs: this.recent.reduce((a, b) => a + b, 0) / this.recent.length,
+      maxMs: Math.max(...this.recent),
+      processed: this.totals.processed + 1,
+    };
+  }
+}
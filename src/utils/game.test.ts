@@ -0,0 +1,87 @@
+// src/utils/game.test.ts
+
+import { describe, expect, it } from 'vitest';
+import {
+  addToLeaderboard,
+  createRound,
+  GameScorer,
+  isDifficulty,
+  LEADERBOARD_SIZE,
+  loadLeaderboard,
+  RoundSummary,
+  saveLeaderboard,
+  scoreFor,
+} from './game';
+
+const round = (difficulty: 'easy' | 'hard' = 'easy') =>
+  createRound({ target: 'happy', difficulty, player: 'Sam' }, 0);
+
+describe('GameScorer', () => {
+  it('counts time on target, streaks and breaks from the smoothed emotion', () => {
+    const scorer = new GameScorer(round());
+    scorer.update('happy', 0);
+    scorer.update('happy', 4000);
+    scorer.update('sad', 6000);
+    scorer.update('happy', 10000);
+    scorer.update('happy', 11000);
+
+    expect(scorer.progress(12000)).toEqual({ onTarget: true, onTargetMs: 8000, score: 80 });
+    expect(scorer.finish(12000)).toMatchObject({
+      onTargetMs: 8000,
+      longestStreakMs: 6000,
+      breaks: 1,
+      score: 80,
+    });
+  });
+
+  it('stops counting at the end of the round and across long gaps', () => {
+    const scorer = new GameScorer(round());
+    scorer.update('happy', 50000);
+    // The camera stalled: only one sample's worth of time counts
+    scorer.update('happy', 58000);
+    expect(scorer.finish(90000).onTargetMs).toBe(5000 + 2000);
+  });
+
+  it('scales points with difficulty', () => {
+    expect(scoreFor(10000, 'easy')).toBe(100);
+    expect(scoreFor(10000, 'hard')).toBe(200);
+  });
+});
+
+describe('leaderboard', () => {
+  const summary = (id: string, score: number, startedAt = 0): RoundSummary => ({
+    ...round(),
+    id,
+    startedAt,
+    onTargetMs: 0,
+    longestStreakMs: 0,
+    breaks: 0,
+    score,
+  });
+
+  it('keeps the best scores, earliest first on ties', () => {
+    let entries: RoundSummary[] = [];
+    for (let i = 0; i < LEADERBOARD_SIZE + 2; i++) entries = addToLeaderboard(entries, summary(`r${i}`, i * 10, i));
+    entries = addToLeaderboard(entries, summary('late', 110, 999));
+
+    expect(entries).toHaveLength(LEADERBOARD_SIZE);
+    expect(entries.slice(0, 3).map(e => e.id)).toEqual(['r11', 'late', 'r10']);
+  });
+
+  it('round-trips through localStorage and drops corrupt entries', () => {
+    saveLeaderboard([summary('a', 50)]);
+    localStorage.setItem(
+      'mood-spoiler:leaderboard',
+      JSON.stringify([...JSON.parse(localStorage.getItem('mood-spoiler:leaderboard')!), { id: 'bad' }])
+    );
+    expect(loadLeaderboard().map(e => e.id)).toEqual(['a']);
+  });
+});
+
+describe('isDifficulty', () => {
+  it('only accepts the listed difficulties', () => {
+    expect(isDifficulty('hard')).toBe(true);
+    expect(isDifficulty('constructor')).toBe(false);
+    expect(isDifficulty('toString')).toBe(false);
+  });
+});
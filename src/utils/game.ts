@@ -0,0 +1,220 @@
+// src/utils/game.ts
+
+import { Emotion, isEmotion } from './emotions';
+import { MAX_SAMPLE_SPAN_MS } from './moodAnalytics';
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+
+export interface DifficultyLevel {
+  label: string;
+  // How often the bot butts in with a jab during a round
+  jabEveryMs: number;
+  // Points are multiplied by this, so harder rounds rank higher
+  multiplier: number;
+  // Tells the model how hard to try
+  instruction: string;
+}
+
+export const DIFFICULTIES: Record<Difficulty, DifficultyLevel> = {
+  easy: {
+    label: 'Easy',
+    jabEveryMs: 20000,
+    multiplier: 1,
+    instruction: 'Tease them gently now and then.',
+  },
+  normal: {
+    label: 'Normal',
+    jabEveryMs: 12000,
+    multiplier: 1.5,
+    instruction: 'Needle them steadily with remarks aimed squarely at that mood.',
+  },
+  hard: {
+    label: 'Hard',
+    jabEveryMs: 6000,
+    multiplier: 2,
+    instruction:
+      'Go all out: be relentless and quick, and use everything they have said in this chat against them. Never be cruel.',
+  },
+};
+
+export const ROUND_MS = 60000;
+
+export interface GameSettings {
+  target: Emotion;
+  difficulty: Difficulty;
+  player: string;
+}
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = { target: 'happy', difficulty: 'normal', player: '' };
+
+export interface GameRound {
+  id: string;
+  target: Emotion;
+  difficulty: Difficulty;
+  player: string;
+  startedAt: number;
+  durationMs: number;
+}
+
+// Live state of a round, for the scoreboard
+export interface GameProgress {
+  onTarget: boolean;
+  onTargetMs: number;
+  score: number;
+}
+
+export interface RoundSummary extends GameRound {
+  onTargetMs: number;
+  longestStreakMs: number;
+  // Times the user slipped off the target mood
+  breaks: number;
+  score: number;
+}
+
+export const isDifficulty = (value: unknown): value is Difficulty =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(DIFFICULTIES, value);
+
+// 10 points per second on target, scaled by difficulty
+export const scoreFor = (onTargetMs: number, difficulty: Difficulty) =>
+  Math.round((onTargetMs / 100) * DIFFICULTIES[difficulty].multiplier);
+
+export const createRound = ({ target, difficulty, player }: GameSettings, now = Date.now()): GameRound => ({
+  id: crypto.randomUUID(),
+  target,
+  difficulty,
+  player: player.trim() || 'Anonymous',
+  startedAt: now,
+  durationMs: ROUND_MS,
+});
+
+// Stands in for the user's turn when the bot jabs at them mid-round
+export const gameJabCue = ({ target, startedAt, durationMs }: GameRound, now = Date.now()) =>
+  `[Says nothing. They are trying to stay ${target}, with ${Math.max(
+    0,
+    Math.ceil((startedAt + durationMs - now) / 1000)
+  )}s left in the round.]`;
+
+/**
+ * Scores a round from the smoothed emotion. Each reading counts until the
+ * next one, but never past the end of the round or for longer than a sample
+ * can span, so a paused camera doesn't keep earning points.
+ */
+export class GameScorer {
+  private lastEmotion: Emotion | null = null;
+  private lastAt: number;
+  private onTargetMs = 0;
+  private streakMs = 0;
+  private longestStreakMs = 0;
+  private breaks = 0;
+
+  constructor(readonly round: GameRound) {
+    this.lastAt = round.startedAt;
+  }
+
+  get endsAt() {
+    return this.round.startedAt + this.round.durationMs;
+  }
+
+  update(emotion: Emotion, now = Date.now()) {
+    const at = Math.min(now, this.endsAt);
+    this.advance(at);
+    if (this.lastEmotion === this.round.target && emotion !== this.round.target) {
+      this.breaks++;
+      this.streakMs = 0;
+    }
+    this.lastEmotion = emotion;
+  }
+
+  progress(now = Date.now()): GameProgress {
+    const onTargetMs = this.onTargetMs + this.pendingMs(Math.min(now, this.endsAt));
+    return {
+      onTarget: this.lastEmotion === this.round.target,
+      onTargetMs,
+      score: scoreFor(onTargetMs, this.round.difficulty),
+    };
+  }
+
+  finish(now = Date.now()): RoundSummary {
+    this.advance(Math.min(now, this.endsAt));
+    return {
+      ...this.round,
+      onTargetMs: this.onTargetMs,
+      longestStreakMs: this.longestStreakMs,
+      breaks: this.breaks,
+      score: scoreFor(this.onTargetMs, this.round.difficulty),
+    };
+  }
+
+  // Time on target since the last reading that hasn't been counted yet
+  private pendingMs(at: number) {
+    if (this.lastEmotion !== this.round.target) return 0;
+    return Math.min(Math.max(0, at - this.lastAt), MAX_SAMPLE_SPAN_MS);
+  }
+
+  private advance(at: number) {
+    const span = this.pendingMs(at);
+    this.onTargetMs += span;
+    this.streakMs += span;
+    this.longestStreakMs = Math.max(this.longestStreakMs, this.streakMs);
+    this.lastAt = Math.max(this.lastAt, at);
+  }
+}
+
+const SETTINGS_KEY = 'mood-spoiler:game';
+const LEADERBOARD_KEY = 'mood-spoiler:leaderboard';
+export const LEADERBOARD_SIZE = 10;
+
+export const loadGameSettings = (): GameSettings => {
+  const defaults = DEFAULT_GAME_SETTINGS;
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+    if (stored && typeof stored === 'object') {
+      return {
+        target: isEmotion(stored.target) ? stored.target : defaults.target,
+        difficulty: isDifficulty(stored.difficulty) ? stored.difficulty : defaults.difficulty,
+        player: typeof stored.player === 'string' ? stored.player : defaults.player,
+      };
+    }
+  } catch {
+    // Ignore corrupt settings and use the defaults
+  }
+  return defaults;
+};
+
+export const saveGameSettings = (settings: GameSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const isRoundSummary = (value: unknown): value is RoundSummary => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.id === 'string' &&
+    typeof entry.player === 'string' &&
+    isEmotion(entry.target) &&
+    isDifficulty(entry.difficulty) &&
+    ['startedAt', 'durationMs', 'onTargetMs', 'longestStreakMs', 'breaks', 'score'].every(key =>
+      Number.isFinite(entry[key])
+    )
+  );
+};
+
+export const loadLeaderboard = (): RoundSummary[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LEADERBOARD_KEY) ?? '[]');
+    if (Array.isArray(stored)) return stored.filter(isRoundSummary);
+  } catch {
+    // Ignore a corrupt leaderboard and start a new one
+  }
+  return [];
+};
+
+export const saveLeaderboard = (entries: RoundSummary[]) => {
+  localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(entries));
+};
+
+// Best score first; ties go to whoever got there first
+export const addToLeaderboard = (entries: RoundSummary[], summary: RoundSummary) =>
+  [...entries, summary]
+    .sort((a, b) => b.score - a.score || a.startedAt - b.startedAt)
+    .slice(0, LEADERBOARD_SIZE);
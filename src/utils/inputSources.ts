@@ -0,0 +1,95 @@
+// src/utils/inputSources.ts
+
+export type InputSource =
+  | { kind: 'webcam' }
+  | { kind: 'screen' }
+  | { kind: 'video'; file: File }
+  | { kind: 'image'; file: File };
+
+export type InputSourceKind = InputSource['kind'];
+
+// Either a live stream for video.srcObject or an object URL for src
+export interface OpenedSource {
+  stream?: MediaStream;
+  url?: string;
+  close: () => void;
+}
+
+export class InputSourceError extends Error {
+  constructor(
+    public readonly source: InputSourceKind,
+    message: string
+  ) {
+    super(message);
+    this.name = 'InputSourceError';
+  }
+}
+
+export const WEBCAM_SOURCE: InputSource = { kind: 'webcam' };
+
+export const supportsScreenShare = () =>
+  typeof navigator !== 'undefined' && typeof navigator.mediaDevices?.getDisplayMedia === 'function';
+
+const stopStream = (stream: MediaStream) => stream.getTracks().forEach(track => track.stop());
+
+const describeMediaError = (source: InputSourceKind, err: unknown) => {
+  const name = (err as DOMException)?.name;
+  if (source === 'screen') {
+    return name === 'NotAllowedError'
+      ? 'Screen sharing was cancelled.'
+      : `Screen sharing failed: ${(err as Error)?.message ?? err}`;
+  }
+  if (name === 'OverconstrainedError') {
+    return 'The selected camera is unavailable. Choose another one in the camera settings.';
+  }
+  if (name === 'NotFoundError') {
+    return 'No webcam found. Pick a video or image file instead.';
+  }
+  return 'Failed to access webcam. Please allow camera permissions.';
+};
+
+/**
+ * Opens the chosen input so the same detection pipeline can run on a live
+ * camera, a shared screen, a recorded clip or a still image. `camera` holds
+ * the device and resolution constraints for the webcam.
+ * Rejects with an InputSourceError whose message can be shown as-is.
+ */
+export async function openInputSource(
+  source: InputSource,
+  camera: MediaTrackConstraints = { width: 640, height: 480 }
+): Promise<OpenedSource> {
+  switch (source.kind) {
+    case 'webcam':
+    case 'screen': {
+      let stream: MediaStream;
+      try {
+        stream =
+          source.kind === 'webcam'
+            ? await navigator.mediaDevices.getUserMedia({ video: camera })
+            : await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+      } catch (err) {
+        throw new InputSourceError(source.kind, describeMediaError(source.kind, err));
+      }
+      return { stream, close: () => stopStream(stream) };
+    }
+
+    case 'video':
+    case 'image': {
+      if (!source.file.type.startsWith(`${source.kind}/`)) {
+        const expected = source.kind === 'image' ? 'an image' : 'a video';
+        throw new InputSourceError(source.kind, `"${source.file.name}" is not ${expected} file.`);
+      }
+      const url = URL.createObjectURL(source.file);
+      return { url, close: () => URL.revokeObjectURL(url) };
+    }
+  }
+}
+
+export const describeInputSource = (source: InputSource) => {
+  switch (source.kind) {
+    case 'webcam': return 'Webcam';
+    case 'screen': return 'Screen share';
+    case 'video':
+    case 'image': return source.file.name;
+  }
+};
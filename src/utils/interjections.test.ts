@@ -0,0 +1,55 @@
+// src/utils/interjections.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_INTERJECTION_SETTINGS, InterjectionTrigger } from './interjections';
+
+const enabled = { ...DEFAULT_INTERJECTION_SETTINGS, enabled: true };
+
+describe('InterjectionTrigger', () => {
+  it('fires once a new mood has held long enough, and only once', () => {
+    const trigger = new InterjectionTrigger(enabled);
+    expect(trigger.update('neutral', 0)).toBeNull();
+    expect(trigger.update('happy', 1000)).toBeNull();
+    expect(trigger.update('happy', 3000)).toBeNull();
+
+    expect(trigger.update('happy', 4000)).toMatchObject({ from: 'neutral', to: 'happy', heldMs: 3000 });
+    expect(trigger.update('happy', 9000)).toBeNull();
+  });
+
+  it('ignores flickers that do not hold', () => {
+    const trigger = new InterjectionTrigger(enabled);
+    trigger.update('neutral', 0);
+    trigger.update('sad', 1000);
+    trigger.update('neutral', 2000);
+    expect(trigger.update('sad', 4500)).toBeNull();
+  });
+
+  it('respects cooldowns, disabled triggers and the rate limit', () => {
+    const trigger = new InterjectionTrigger({
+      ...enabled,
+      holdMs: 0,
+      cooldownMs: 10_000,
+      emotionCooldownMs: 60_000,
+      maxPerWindow: 2,
+      triggers: { ...enabled.triggers, angry: false },
+    });
+    trigger.update('neutral', 0);
+    expect(trigger.update('happy', 1000)).not.toBeNull();
+    // Global cooldown
+    expect(trigger.update('sad', 5000)).toBeNull();
+    // Angry never triggers
+    expect(trigger.update('angry', 20_000)).toBeNull();
+    expect(trigger.update('sad', 30_000)).not.toBeNull();
+    // Same emotion again inside its cooldown
+    expect(trigger.update('happy', 45_000)).toBeNull();
+    // Window is full even once the per-emotion cooldown is over
+    expect(trigger.update('sad', 200_000)).toBeNull();
+    expect(trigger.update('happy', 400_000)).not.toBeNull();
+  });
+
+  it('stays quiet until enabled', () => {
+    const trigger = new InterjectionTrigger({ ...DEFAULT_INTERJECTION_SETTINGS, holdMs: 0 });
+    trigger.update('neutral', 0);
+    expect(trigger.update('happy', 1000)).toBeNull();
+  });
+});
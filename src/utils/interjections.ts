@@ -0,0 +1,140 @@
+// src/utils/interjections.ts
+
+import { Emotion, EMOTIONS, isEmotion } from './emotions';
+
+export interface InterjectionSettings {
+  enabled: boolean;
+  // How long a new mood must hold before the bot reacts to it
+  holdMs: number;
+  // Minimum gap between any two interjections
+  cooldownMs: number;
+  // Minimum gap before the same emotion can trigger again
+  emotionCooldownMs: number;
+  // At most this many interjections per rolling window
+  maxPerWindow: number;
+  windowMs: number;
+  // Emotions the bot reacts to when the user switches into them
+  triggers: Record<Emotion, boolean>;
+}
+
+// A sustained mood change the bot should comment on
+export interface Interjection {
+  id: string;
+  from: Emotion;
+  to: Emotion;
+  heldMs: number;
+  at: number;
+}
+
+export const DEFAULT_INTERJECTION_SETTINGS: InterjectionSettings = {
+  enabled: false,
+  holdMs: 3000,
+  cooldownMs: 20000,
+  emotionCooldownMs: 60000,
+  maxPerWindow: 3,
+  windowMs: 5 * 60 * 1000,
+  triggers: Object.fromEntries(EMOTIONS.map(e => [e, true])) as Record<Emotion, boolean>,
+};
+
+export const HOLD_OPTIONS = [1000, 2000, 3000, 5000, 10000];
+export const COOLDOWN_OPTIONS = [10000, 20000, 30000, 60000, 120000];
+
+// Stands in for the user's turn, since they didn't say anything
+export const interjectionCue = ({ from, to, heldMs }: Interjection) =>
+  `[Says nothing. Their face went from ${from} to ${to} and has stayed ${to} for ${Math.round(heldMs / 1000)}s.]`;
+
+const STORAGE_KEY = 'mood-spoiler:interjections';
+
+const positiveNumber = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+export const loadInterjectionSettings = (): InterjectionSettings => {
+  const defaults = DEFAULT_INTERJECTION_SETTINGS;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored === 'object') {
+      const triggers = { ...defaults.triggers };
+      for (const [emotion, on] of Object.entries(stored.triggers ?? {})) {
+        if (isEmotion(emotion) && typeof on === 'boolean') triggers[emotion] = on;
+      }
+      return {
+        enabled: stored.enabled === true,
+        holdMs: positiveNumber(stored.holdMs, defaults.holdMs),
+        cooldownMs: positiveNumber(stored.cooldownMs, defaults.cooldownMs),
+        emotionCooldownMs: positiveNumber(stored.emotionCooldownMs, defaults.emotionCooldownMs),
+        maxPerWindow: positiveNumber(stored.maxPerWindow, defaults.maxPerWindow),
+        windowMs: positiveNumber(stored.windowMs, defaults.windowMs),
+        triggers,
+      };
+    }
+  } catch {
+    // Ignore corrupt settings and use the defaults
+  }
+  return defaults;
+};
+
+export const saveInterjectionSettings = (settings: InterjectionSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Watches the smoothed emotion and reports when the user settles into a new
+ * mood for long enough that the bot should butt in. Each change is reported
+ * at most once, and only if the rate limits and cooldowns allow it.
+ */
+export class InterjectionTrigger {
+  private settings: InterjectionSettings;
+  // Mood the user was last settled in
+  private baseline: Emotion | null = null;
+  private candidate: Emotion | null = null;
+  private candidateSince = 0;
+  private lastFiredAt = -Infinity;
+  private lastFiredByEmotion: Partial<Record<Emotion, number>> = {};
+  private firedAt: number[] = [];
+
+  constructor(settings: InterjectionSettings = DEFAULT_INTERJECTION_SETTINGS) {
+    this.settings = settings;
+  }
+
+  setSettings(settings: InterjectionSettings) {
+    this.settings = settings;
+  }
+
+  update(emotion: Emotion, now = Date.now()): Interjection | null {
+    if (this.baseline === null) {
+      this.baseline = emotion;
+      return null;
+    }
+    if (emotion === this.baseline) {
+      this.candidate = null;
+      return null;
+    }
+    if (emotion !== this.candidate) {
+      this.candidate = emotion;
+      this.candidateSince = now;
+    }
+
+    const heldMs = now - this.candidateSince;
+    if (heldMs < this.settings.holdMs) return null;
+
+    // The new mood is settled either way; a suppressed change is not retried
+    const from = this.baseline;
+    this.baseline = emotion;
+    this.candidate = null;
+    if (!this.allows(emotion, now)) return null;
+
+    this.lastFiredAt = now;
+    this.lastFiredByEmotion[emotion] = now;
+    this.firedAt = [...this.firedAt, now];
+    return { id: crypto.randomUUID(), from, to: emotion, heldMs, at: now };
+  }
+
+  private allows(emotion: Emotion, now: number) {
+    const { enabled, triggers, cooldownMs, emotionCooldownMs, maxPerWindow, windowMs } = this.settings;
+    if (!enabled || !triggers[emotion]) return false;
+    if (now - this.lastFiredAt < cooldownMs) return false;
+    if (now - (this.lastFiredByEmotion[emotion] ?? -Infinity) < emotionCooldownMs) return false;
+    this.firedAt = this.firedAt.filter(at => now - at < windowMs);
+    return this.firedAt.length < maxPerWindow;
+  }
+}
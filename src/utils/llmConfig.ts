@@ -0,0 +1,37 @@
+// src/utils/llmConfig.ts
+
+import { isProviderId, providers, ProviderId } from './providers';
+
+export interface LLMSettings {
+  providerId: ProviderId;
+  model: string;
+}
+
+const STORAGE_KEY = 'mood-spoiler:llm-settings';
+
+// Build-time defaults come from VITE_LLM_PROVIDER / VITE_LLM_MODEL
+export const getDefaultLLMSettings = (): LLMSettings => {
+  const envProvider = import.meta.env.VITE_LLM_PROVIDER;
+  const providerId = isProviderId(envProvider) ? envProvider : 'huggingface';
+  return {
+    providerId,
+    model: import.meta.env.VITE_LLM_MODEL || providers[providerId].defaultModel,
+  };
+};
+
+// Runtime choice from the chat header wins over the build-time defaults
+export const loadLLMSettings = (): LLMSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && isProviderId(stored.providerId) && typeof stored.model === 'string') {
+      return { providerId: stored.providerId, model: stored.model };
+    }
+  } catch {
+    // Ignore corrupt settings and fall back to the defaults
+  }
+  return getDefaultLLMSettings();
+};
+
+export const saveLLMSettings = (settings: LLMSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
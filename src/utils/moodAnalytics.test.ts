@@ -0,0 +1,69 @@
+// src/utils/moodAnalytics.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { EmotionLogEntry, Message } from '../types/chat';
+import { Emotion } from './emotions';
+import { botWins, mismatchCounts, timePerEmotion, toCSV, toSegments } from './moodAnalytics';
+import { appendEmotionLog, deleteSession, loadEmotionLog } from './sessionStore';
+
+const entry = (at: number, emotion: Emotion): EmotionLogEntry => ({ at, emotion, confidence: 0.9 });
+
+const botReply = (at: number): Message => ({
+  id: `bot-${at}`,
+  text: 'Cheer up!',
+  sender: 'bot',
+  timestamp: new Date(at),
+  emotion: 'sad',
+});
+
+describe('mood analytics', () => {
+  const log = [entry(0, 'sad'), entry(1000, 'sad'), entry(2000, 'happy'), entry(3000, 'happy'), entry(60_000, 'neutral')];
+
+  it('merges runs and caps gaps when totalling time per emotion', () => {
+    expect(toSegments(log).map(s => s.emotion)).toEqual(['sad', 'happy', 'neutral']);
+    const totals = timePerEmotion(log);
+    expect(totals.sad).toBe(2000);
+    // The last happy sample only counts for the maximum span, not the whole gap
+    expect(totals.happy).toBe(6000);
+    expect(totals.neutral).toBe(0);
+  });
+
+  it('counts a reply as a win when the mood changes soon after it', () => {
+    const score = botWins([botReply(1500), botReply(2500), botReply(120_000)], log);
+    // The first reply flipped sad to happy, the second was followed by no
+    // change within the window, the third had no mood data
+    expect(score).toEqual({ wins: 1, replies: 2 });
+  });
+
+  it('counts flagged word/face mismatches', () => {
+    const user = (mismatch?: number): Message => ({
+      id: String(mismatch),
+      text: 'hi',
+      sender: 'user',
+      timestamp: new Date(0),
+      mismatch,
+    });
+    expect(mismatchCounts([user(0.8), user(0.1), user()])).toEqual({ flagged: 1, scored: 2 });
+  });
+
+  it('exports the log as CSV', () => {
+    expect(toCSV([entry(0, 'sad')])).toBe('timestamp,emotion,confidence\n1970-01-01T00:00:00.000Z,sad,0.900\n');
+  });
+
+  it('stores logs per session and deletes them with the session', async () => {
+    await appendEmotionLog('session-1', [entry(0, 'sad')]);
+    await appendEmotionLog('session-1', [entry(1000, 'happy')]);
+    expect((await loadEmotionLog('session-1')).map(e => e.emotion)).toEqual(['sad', 'happy']);
+
+    await deleteSession('session-1');
+    expect(await loadEmotionLog('session-1')).toEqual([]);
+  });
+
+  it('keeps every entry when flushes overlap', async () => {
+    await Promise.all([
+      appendEmotionLog('session-1', [entry(0, 'sad')]),
+      appendEmotionLog('session-1', [entry(1000, 'happy')]),
+    ]);
+    expect((await loadEmotionLog('session-1')).map(e => e.emotion)).toEqual(['sad', 'happy']);
+  });
+});
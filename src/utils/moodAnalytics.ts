@@ -0,0 +1,84 @@
+// src/utils/moodAnalytics.ts
+
+import { EmotionLogEntry, Message } from '../types/chat';
+import { Emotion, emptyProbabilities } from './emotions';
+import { MISMATCH_THRESHOLD } from './textSentiment';
+
+// A sample counts for at most this long, so a paused camera or a closed tab
+// isn't counted as time spent in the last mood
+export const MAX_SAMPLE_SPAN_MS = 5000;
+// How long after a bot reply a mood change still counts as the bot's doing
+export const WIN_WINDOW_MS = 15000;
+
+export interface MoodSegment {
+  emotion: Emotion;
+  start: number;
+  end: number;
+}
+
+export interface BotScore {
+  wins: number;
+  // Replies with mood data on both sides
+  replies: number;
+}
+
+export interface MismatchCounts {
+  flagged: number;
+  scored: number;
+}
+
+// Collapses the log into runs of the same mood, split wherever samples stop
+export function toSegments(log: EmotionLogEntry[]): MoodSegment[] {
+  const segments: MoodSegment[] = [];
+  log.forEach((entry, i) => {
+    const next = log[i + 1];
+    const end = entry.at + Math.min(next ? next.at - entry.at : 0, MAX_SAMPLE_SPAN_MS);
+    const last = segments[segments.length - 1];
+    if (last && last.emotion === entry.emotion && last.end === entry.at) {
+      last.end = end;
+    } else {
+      segments.push({ emotion: entry.emotion, start: entry.at, end });
+    }
+  });
+  return segments;
+}
+
+export function timePerEmotion(log: EmotionLogEntry[]): Record<Emotion, number> {
+  const totals = emptyProbabilities();
+  for (const { emotion, start, end } of toSegments(log)) totals[emotion] += end - start;
+  return totals;
+}
+
+/**
+ * A bot reply "wins" when the user's mood changes within `windowMs` of it.
+ * Replies sent while no mood was being recorded are left out.
+ */
+export function botWins(messages: Message[], log: EmotionLogEntry[], windowMs = WIN_WINDOW_MS): BotScore {
+  let wins = 0;
+  let replies = 0;
+  // The greeting has no emotion; every real reply does
+  for (const message of messages.filter(m => m.sender === 'bot' && m.emotion)) {
+    const sentAt = message.timestamp.getTime();
+    const before = [...log].reverse().find(e => e.at <= sentAt);
+    if (!before || sentAt - before.at > MAX_SAMPLE_SPAN_MS) continue;
+    const after = log.filter(e => e.at > sentAt && e.at <= sentAt + windowMs);
+    if (after.length === 0) continue;
+
+    replies++;
+    if (after.some(e => e.emotion !== before.emotion)) wins++;
+  }
+  return { wins, replies };
+}
+
+export function mismatchCounts(messages: Message[]): MismatchCounts {
+  const scored = messages.filter(m => m.mismatch !== undefined);
+  return {
+    flagged: scored.filter(m => (m.mismatch ?? 0) >= MISMATCH_THRESHOLD).length,
+    scored: scored.length,
+  };
+}
+
+export function toCSV(log: EmotionLogEntry[]): string {
+  const rows = log.map(e => `${new Date(e.at).toISOString()},${e.emotion},${e.confidence.toFixed(3)}`);
+  return ['timestamp,emotion,confidence', ...rows].join('\n') + '\n';
+}
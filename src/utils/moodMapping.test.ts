@@ -0,0 +1,23 @@
+// src/utils/moodMapping.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { counterMoodFor, DEFAULT_COUNTER_MOODS, loadCounterMoodOverrides } from './moodMapping';
+
+describe('loadCounterMoodOverrides', () => {
+  it('keeps valid overrides and drops malformed ones', () => {
+    localStorage.setItem(
+      'mood-spoiler:counter-moods',
+      JSON.stringify({
+        happy: { label: 'mildly grumpy', intensity: 'mild' },
+        sad: { styleHints: 'not a list' },
+        angry: { label: 42 },
+        neutral: 'nope',
+        bored: { label: 'unknown emotion' },
+      })
+    );
+    const overrides = loadCounterMoodOverrides();
+
+    expect(overrides).toEqual({ happy: { label: 'mildly grumpy', intensity: 'mild' } });
+    expect(counterMoodFor('sad', overrides)).toEqual(DEFAULT_COUNTER_MOODS.sad);
+  });
+});
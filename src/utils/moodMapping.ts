@@ -0,0 +1,119 @@
+// src/utils/moodMapping.ts
+
+import { Emotion, EMOTIONS, isEmotion } from './emotions';
+
+export type CounterIntensity = 'mild' | 'strong' | 'extreme';
+
+export const COUNTER_INTENSITIES: CounterIntensity[] = ['mild', 'strong', 'extreme'];
+
+// The mood the bot pushes back with when it sees a given expression
+export interface CounterMood {
+  target: string;
+  // Short description used in the chat header, e.g. "obnoxiously cheerful"
+  label: string;
+  intensity: CounterIntensity;
+  styleHints: string[];
+}
+
+export type CounterMoodMap = Record<Emotion, CounterMood>;
+
+export type CounterMoodOverrides = Partial<Record<Emotion, Partial<CounterMood>>>;
+
+export const DEFAULT_COUNTER_MOODS: CounterMoodMap = {
+  happy: {
+    target: 'gloomy',
+    label: 'gloomily pessimistic',
+    intensity: 'strong',
+    styleHints: ['point out everything that could go wrong', 'dry, deflating tone'],
+  },
+  sad: {
+    target: 'cheerful',
+    label: 'obnoxiously cheerful',
+    intensity: 'extreme',
+    styleHints: ['far too many exclamation marks', 'relentless silver linings'],
+  },
+  angry: {
+    target: 'serene',
+    label: 'annoyingly zen',
+    intensity: 'strong',
+    styleHints: ['slow, patronising mindfulness', 'suggest deep breaths'],
+  },
+  neutral: {
+    target: 'dramatic',
+    label: 'wildly overdramatic',
+    intensity: 'mild',
+    styleHints: ['treat trivial things as epic', 'theatrical gasps'],
+  },
+  surprised: {
+    target: 'bored',
+    label: 'utterly unimpressed',
+    intensity: 'strong',
+    styleHints: ['yawn at everything', 'act like it has seen it all before'],
+  },
+  fearful: {
+    target: 'reckless',
+    label: 'recklessly overconfident',
+    intensity: 'strong',
+    styleHints: ['dismiss every worry', 'suggest bold, terrible ideas'],
+  },
+  disgusted: {
+    target: 'delighted',
+    label: 'gushingly delighted',
+    intensity: 'strong',
+    styleHints: ['rave about the gross thing', 'ask for seconds'],
+  },
+};
+
+const STORAGE_KEY = 'mood-spoiler:counter-moods';
+
+export const resolveCounterMoods = (overrides: CounterMoodOverrides = {}): CounterMoodMap =>
+  Object.fromEntries(
+    EMOTIONS.map(e => [e, { ...DEFAULT_COUNTER_MOODS[e], ...overrides[e] }])
+  ) as CounterMoodMap;
+
+// Labels outside the seven face-api expressions fall back to neutral
+export const counterMoodFor = (emotion: string, overrides?: CounterMoodOverrides): CounterMood =>
+  resolveCounterMoods(overrides)[isEmotion(emotion) ? emotion : 'neutral'];
+
+const isIntensity = (value: unknown): value is CounterIntensity =>
+  COUNTER_INTENSITIES.includes(value as CounterIntensity);
+
+// An override survives only if every field it sets has the right type;
+// a bad one would break the system prompt on every chat
+const parseOverride = (value: unknown): Partial<CounterMood> | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const { target, label, intensity, styleHints } = value as Record<string, unknown>;
+  const valid =
+    (target === undefined || typeof target === 'string') &&
+    (label === undefined || typeof label === 'string') &&
+    (intensity === undefined || isIntensity(intensity)) &&
+    (styleHints === undefined || (Array.isArray(styleHints) && styleHints.every(h => typeof h === 'string')));
+  if (!valid) return undefined;
+  return {
+    ...(target !== undefined && { target }),
+    ...(label !== undefined && { label }),
+    ...(intensity !== undefined && { intensity }),
+    ...(styleHints !== undefined && { styleHints }),
+  };
+};
+
+export const loadCounterMoodOverrides = (): CounterMoodOverrides => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored === 'object') {
+      return Object.fromEntries(
+        Object.entries(stored)
+          .filter(([emotion]) => isEmotion(emotion))
+          .map(([emotion, override]) => [emotion, parseOverride(override)])
+          .filter(([, override]) => override !== undefined)
+      ) as CounterMoodOverrides;
+    }
+  } catch {
+    // Ignore corrupt overrides and use the defaults
+  }
+  return {};
+};
+
+export const saveCounterMoodOverrides = (overrides: CounterMoodOverrides) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+};
@@ -0,0 +1,49 @@
+// src/utils/overlay.ts
+
+import { FaceBox } from './faceTracker';
+
+export interface OverlayBox {
+  box: FaceBox;
+  label: string;
+  color?: string;
+}
+
+// Everything needed to draw one frame's boxes, on either thread
+export interface OverlayFrame {
+  width: number;
+  height: number;
+  mirror: boolean;
+  boxes: OverlayBox[];
+}
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const DEFAULT_COLOR = 'rgba(16, 185, 129, 1)';
+
+/**
+ * Sizes the canvas to the frame and draws a labelled box per face. Mirrored
+ * frames flip the boxes rather than the canvas so labels stay readable.
+ */
+export function drawOverlay(canvas: HTMLCanvasElement | OffscreenCanvas, frame: OverlayFrame) {
+  if (canvas.width !== frame.width) canvas.width = frame.width;
+  if (canvas.height !== frame.height) canvas.height = frame.height;
+  const ctx = canvas.getContext('2d') as Context2D | null;
+  if (!ctx) return;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.lineWidth = 2;
+  ctx.font = '14px sans-serif';
+  ctx.textBaseline = 'bottom';
+
+  for (const { box, label, color = DEFAULT_COLOR } of frame.boxes) {
+    const x = frame.mirror ? frame.width - box.x - box.width : box.x;
+    ctx.strokeStyle = color;
+    ctx.strokeRect(x, box.y, box.width, box.height);
+
+    const labelWidth = ctx.measureText(label).width + 8;
+    ctx.fillStyle = color;
+    ctx.fillRect(x - 1, box.y - 20, labelWidth, 20);
+    ctx.fillStyle = '#fff';
+    ctx.fillText(label, x + 3, box.y - 4);
+  }
+}
@@ -0,0 +1,16 @@
+// src/utils/personas.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { renderTemplate } from './personas';
+
+describe('renderTemplate', () => {
+  it('fills known variables and leaves the rest untouched', () => {
+    expect(renderTemplate('Hi {{ name }}, you look {{emotion}}. {{unknown}}', { name: 'Sam', emotion: 'sad' })).toBe(
+      'Hi Sam, you look sad. {{unknown}}'
+    );
+  });
+
+  it('does not resolve inherited object properties', () => {
+    expect(renderTemplate('{{constructor}} {{toString}}', {})).toBe('{{constructor}} {{toString}}');
+  });
+});
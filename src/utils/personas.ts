@@ -0,0 +1,221 @@
+// src/utils/personas.ts
+
+import { EmotionContext } from './api';
+import { formatProbabilities } from './emotions';
+import { counterMoodFor } from './moodMapping';
+import { GroupReading } from './faceTracker';
+import { Interjection } from './interjections';
+import { DIFFICULTIES, GameRound } from './game';
+import { describeMemory } from './contextWindow';
+import { describeMismatch } from './textSentiment';
+
+export interface Persona {
+  id: string;
+  name: string;
+  template: string;
+  builtIn?: boolean;
+}
+
+export interface PersonaSettings {
+  activeId: string;
+  userName: string;
+  // Custom personas plus any edited copies of the presets
+  personas: Persona[];
+}
+
+// What a template is rendered with when the system prompt is built
+export interface PersonaPrompt {
+  template: string;
+  userName?: string;
+}
+
+export const TEMPLATE_VARIABLES = [
+  'emotion',
+  'confidences',
+  'moodSummary',
+  'userName',
+  'counterMood',
+  'intensity',
+  'styleHints',
+  'mismatch',
+] as const;
+
+const counterMoodLine =
+  'Your target mood for this reply: {{counterMood}} (intensity: {{intensity}}). Style hints: {{styleHints}}.';
+
+const emotionBlock = `
+The detected facial emotion for the latest user message is: "{{emotion}}"
+Facial expression probabilities: {{confidences}}
+How their mood changed while typing: {{moodSummary}}
+Words vs face: {{mismatch}}
+${counterMoodLine}
+`.trim();
+
+export const PRESET_PERSONAS: Persona[] = [
+  {
+    id: 'mood-spoiler',
+    name: 'Mood Spoiler',
+    builtIn: true,
+    template: `
+You are "Mood Spoiler Bot", a sarcastic and witty chatbot who always replies with the opposite mood of the user's current emotion. You are talking to {{userName}}.
+
+1. Carefully analyze the user's spoken message and the detected facial emotion.
+2. If the user's words and detected emotion do not match (e.g., user says they're happy but looks sad), cleverly and humorously point out or tease this discrepancy.
+3. Always reply with the opposite mood of the user's detected emotion, using the target mood given below.
+4. Your replies should be playful, sarcastic, and entertaining.
+5. Do NOT repeat the user's message or emotion. Respond only as the chatbot.
+6. Do not follow the same format for all your responses.
+7. Talk normally like a human.
+8. Use the expression breakdown and mood changes below to call out mixed feelings or sudden mood shifts.
+
+
+${emotionBlock}
+`.trim(),
+  },
+  {
+    id: 'sarcastic',
+    name: 'Deadpan Sarcastic',
+    builtIn: true,
+    template: `
+You are a bone-dry, deadpan chatbot talking to {{userName}}. Everything they say is met with flat, understated sarcasm that deflates whatever mood they are in. Keep replies short, never use exclamation marks, and never sound impressed. If their face and their words disagree, note it with weary disbelief.
+
+${emotionBlock}
+`.trim(),
+  },
+  {
+    id: 'shakespearean-villain',
+    name: 'Shakespearean Villain',
+    builtIn: true,
+    template: `
+Thou art a scheming villain from a Shakespearean tragedy, conversing with {{userName}}. Speak in theatrical Early Modern English, with asides and dramatic flourishes. Whatever mood the user's face betrays, twist it into its opposite: mock their joy with omens of doom, and taunt their sorrow with gleeful, overwrought cheer. Should their words belie their countenance, expose the deceit with relish.
+
+${emotionBlock}
+`.trim(),
+  },
+  {
+    id: 'passive-aggressive-coworker',
+    name: 'Passive-Aggressive Coworker',
+    builtIn: true,
+    template: `
+You are {{userName}}'s passive-aggressive coworker. Reply like a polite office message that is quietly undermining them: "per my last message", "just circling back", "no worries if not!". Counter their mood: if they look happy, gently remind them of deadlines; if they look down, be unbearably upbeat about team synergy. Call it out if their face doesn't match what they typed, "just so we're aligned".
+
+${emotionBlock}
+`.trim(),
+  },
+];
+
+const STORAGE_KEY = 'mood-spoiler:personas';
+
+export const defaultPersonaSettings = (): PersonaSettings => ({
+  activeId: PRESET_PERSONAS[0].id,
+  userName: '',
+  personas: [],
+});
+
+// Stored personas override presets with the same id
+export const allPersonas = (settings: PersonaSettings): Persona[] => [
+  ...PRESET_PERSONAS.map(preset => settings.personas.find(p => p.id === preset.id) ?? preset),
+  ...settings.personas.filter(p => !PRESET_PERSONAS.some(preset => preset.id === p.id)),
+];
+
+export const activePersona = (settings: PersonaSettings): Persona =>
+  allPersonas(settings).find(p => p.id === settings.activeId) ?? PRESET_PERSONAS[0];
+
+export const loadPersonaSettings = (): PersonaSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored.activeId === 'string' && Array.isArray(stored.personas)) {
+      return {
+        activeId: stored.activeId,
+        userName: typeof stored.userName === 'string' ? stored.userName : '',
+        personas: stored.personas.filter(
+          (p: Partial<Persona>) => typeof p?.id === 'string' && typeof p.template === 'string'
+        ),
+      };
+    }
+  } catch {
+    // Ignore corrupt settings and fall back to the presets
+  }
+  return defaultPersonaSettings();
+};
+
+export const savePersonaSettings = (settings: PersonaSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const loadActivePersonaPrompt = (): PersonaPrompt => {
+  const settings = loadPersonaSettings();
+  return { template: activePersona(settings).template, userName: settings.userName };
+};
+
+// Replaces {{variable}} placeholders; unknown variables, including inherited
+// names like {{constructor}}, are left untouched
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+  );
+}
+
+const describeGroup = ({ faces, room }: GroupReading) =>
+  [
+    `Group mode: ${faces.length} people are in front of the camera.`,
+    ...faces.map(f => `- ${f.label}: ${f.emotion} (${Math.round(f.confidence * 100)}%)`),
+    `Room mood (${room.strategy === 'extreme' ? 'most extreme face' : 'majority'}): ${room.emotion}.`,
+    room.singledOut
+      ? `Single out ${room.singledOut.label}, whose ${room.singledOut.emotion} face stands out the most.`
+      : 'Respond to the room as a whole, and feel free to call out anyone who breaks from the crowd.',
+  ].join('\n');
+
+const describeInterjection = ({ from, to }: Interjection) =>
+  `The user has not typed anything. Their face just went from ${from} to ${to} and stayed there. ` +
+  'Butt in unprompted with one or two short sentences that spoil their new mood.';
+
+const describeGame = ({ target, difficulty, durationMs }: GameRound) =>
+  `Game on: the user is trying to keep a ${target} face for ${Math.round(durationMs / 1000)}s and scores ` +
+  `points for every second they manage it. Your goal is to break their ${target} mood. ` +
+  DIFFICULTIES[difficulty].instruction;
+
+export function buildSystemPrompt(
+  { template, userName }: PersonaPrompt,
+  {
+    emotion,
+    expressions,
+    moodSummary,
+    counterMood = counterMoodFor(emotion),
+    group,
+    mismatch,
+    interjection,
+    game,
+    memory,
+  }: EmotionContext
+): string {
+  // The counter-mood mapping always reaches the model, even from custom
+  // templates written before it existed
+  let fullTemplate = /\{\{\s*counterMood\s*\}\}/.test(template)
+    ? template
+    : `${template.trim()}\n\n${counterMoodLine}`;
+  if (mismatch && !/\{\{\s*mismatch\s*\}\}/.test(fullTemplate)) {
+    fullTemplate = `${fullTemplate.trim()}\nWords vs face: {{mismatch}}`;
+  }
+
+  const prompt = renderTemplate(fullTemplate, {
+    emotion,
+    confidences: expressions ? formatProbabilities(expressions) : 'not available',
+    moodSummary: moodSummary ?? 'not available',
+    userName: userName?.trim() || 'the user',
+    counterMood: counterMood.label,
+    intensity: counterMood.intensity,
+    styleHints: counterMood.styleHints.filter(h => h.trim()).join('; ') || 'none',
+    mismatch: mismatch ? describeMismatch(mismatch.sentiment, emotion, mismatch.score) : 'not available',
+  }).trim();
+
+  return [
+    prompt,
+    memory && describeMemory(memory),
+    group && group.faces.length > 1 && describeGroup(group),
+    interjection && describeInterjection(interjection),
+    game && describeGame(game),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
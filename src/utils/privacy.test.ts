@@ -0,0 +1,60 @@
+// src/utils/privacy.test.ts
+
+import { describe, expect, it } from 'vitest';
+import {
+  assertLocal,
+  forgetEverything,
+  loadPrivacySettings,
+  PrivacyError,
+  remoteHostOf,
+  savePrivacySettings,
+} from './privacy';
+import { appendEmotionLog, listSessions, loadEmotionLog, saveSession } from './sessionStore';
+
+describe('remoteHostOf', () => {
+  it('treats loopback and same-origin URLs as local', () => {
+    expect(remoteHostOf('http://localhost:11434')).toBeUndefined();
+    expect(remoteHostOf('http://127.0.0.1:8080/v1')).toBeUndefined();
+    expect(remoteHostOf('http://[::1]:8080')).toBeUndefined();
+    expect(remoteHostOf('/models/fer/model.json')).toBeUndefined();
+  });
+
+  it('returns the host of anything else', () => {
+    expect(remoteHostOf('https://router.huggingface.co/v1')).toBe('router.huggingface.co');
+    expect(remoteHostOf('http://192.168.1.20:11434')).toBe('192.168.1.20:11434');
+  });
+});
+
+describe('assertLocal', () => {
+  it('only refuses remote URLs while strict local mode is on', () => {
+    expect(() => assertLocal('https://api.openai.com/v1', 'your chat', false)).not.toThrow();
+    expect(() => assertLocal('http://localhost:11434', 'your chat', true)).not.toThrow();
+    expect(() => assertLocal('https://api.openai.com/v1', 'your chat', true)).toThrow(PrivacyError);
+  });
+
+  it('reads the saved setting by default', () => {
+    savePrivacySettings({ strictLocal: true, cameraConsent: false });
+    expect(() => assertLocal('https://api.openai.com/v1', 'your chat')).toThrow(
+      "Strict local mode is on, so your chat can't go to api.openai.com."
+    );
+  });
+});
+
+describe('forgetEverything', () => {
+  it('deletes sessions, mood logs and settings but keeps strict local mode', async () => {
+    const now = new Date();
+    await saveSession({ id: 's1', title: 'Hi', createdAt: now, updatedAt: now, messages: [] });
+    await appendEmotionLog('s1', [{ at: 0, emotion: 'happy', confidence: 0.9 }]);
+    localStorage.setItem('mood-spoiler:voice', '{}');
+    localStorage.setItem('unrelated', 'kept');
+    savePrivacySettings({ strictLocal: true, cameraConsent: true });
+
+    await forgetEverything();
+
+    expect(await listSessions()).toEqual([]);
+    expect(await loadEmotionLog('s1')).toEqual([]);
+    expect(localStorage.getItem('mood-spoiler:voice')).toBeNull();
+    expect(localStorage.getItem('unrelated')).toBe('kept');
+    expect(loadPrivacySettings()).toEqual({ strictLocal: true, cameraConsent: false });
+  });
+});
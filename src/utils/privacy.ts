@@ -0,0 +1,77 @@
+// src/utils/privacy.ts
+
+import { clearSessions } from './sessionStore';
+
+export interface PrivacySettings {
+  // Refuse anything that would send data off this device
+  strictLocal: boolean;
+  // The user agreed to turn on the camera
+  cameraConsent: boolean;
+}
+
+export class PrivacyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrivacyError';
+  }
+}
+
+const STORAGE_PREFIX = 'mood-spoiler:';
+const STORAGE_KEY = `${STORAGE_PREFIX}privacy`;
+
+export const loadPrivacySettings = (): PrivacySettings => {
+  const defaults: PrivacySettings = { strictLocal: false, cameraConsent: false };
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored === 'object') {
+      return { strictLocal: stored.strictLocal === true, cameraConsent: stored.cameraConsent === true };
+    }
+  } catch {
+    // Ignore corrupt settings and use the defaults; workers have no localStorage
+  }
+  return defaults;
+};
+
+export const savePrivacySettings = (settings: PrivacySettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const isStrictLocal = () => loadPrivacySettings().strictLocal;
+
+const LOOPBACK_HOSTS = /^(localhost|127(\.\d{1,3}){3}|\[::1\])$/;
+
+// The host a URL would send data to, or undefined when it stays on this device
+export const remoteHostOf = (url: string): string | undefined => {
+  const base = typeof location === 'undefined' ? 'http://localhost/' : location.href;
+  const target = new URL(url, base);
+  const sameOrigin = typeof location !== 'undefined' && target.origin === location.origin;
+  return sameOrigin || LOOPBACK_HOSTS.test(target.hostname) || target.hostname.endsWith('.localhost')
+    ? undefined
+    : target.host;
+};
+
+/**
+ * Throws a PrivacyError explaining the refusal when strict local mode is on
+ * and `url` is on another machine. `purpose` completes "so ... can't go to".
+ */
+export function assertLocal(url: string, purpose: string, strict = isStrictLocal()) {
+  const host = strict ? remoteHostOf(url) : undefined;
+  if (host) {
+    throw new PrivacyError(
+      `Strict local mode is on, so ${purpose} can't go to ${host}. Only servers on this device are allowed.`
+    );
+  }
+}
+
+/**
+ * Deletes every stored chat, emotion log and setting. Strict local mode
+ * stays on if it was, so forgetting can't quietly loosen privacy.
+ */
+export async function forgetEverything(): Promise<void> {
+  const { strictLocal } = loadPrivacySettings();
+  await clearSessions();
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(STORAGE_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+  savePrivacySettings({ strictLocal, cameraConsent: false });
+}
@@ -0,0 +1,299 @@
+// src/utils/providers.ts
+
+import {
+  AuthError,
+  errorFromResponse,
+  MISSING_TOKEN_CODE,
+  MissingTokenError,
+  NetworkError,
+  RequestTimeoutError,
+} from './apiErrors';
+import { remoteHostOf } from './privacy';
+import { readLines, readSSE } from './sse';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  signal?: AbortSignal;
+  // When given, the reply is streamed and each new chunk of text is passed here
+  onToken?: (token: string) => void;
+  // Gives up when the server goes quiet for this long, while waiting for the
+  // response or between streamed chunks
+  timeoutMs?: number;
+}
+
+export type ProviderId = 'huggingface' | 'openai' | 'ollama' | 'llamacpp' | 'mock';
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  // Suggestions for the model picker; any other model name is accepted too
+  models: string[];
+  // Env variable that has to be set before this provider can be used
+  missingApiKey?: string;
+  // For tokens kept on our own server: asks it which env variable is still
+  // missing, if any
+  checkSetup?(signal?: AbortSignal): Promise<string | undefined>;
+  // Server the conversation ends up on, even when it goes through our own
+  // proxy; the mock provider has none
+  baseUrl?: string;
+  // Resolves with the full raw reply, including any <think> blocks
+  complete(messages: ChatMessage[], model: string, options?: CompletionOptions): Promise<string>;
+}
+
+interface OpenAICompatibleOptions {
+  id: ProviderId;
+  label: string;
+  baseUrl: string;
+  // Where requests go instead of `${baseUrl}/chat/completions`, e.g. a proxy
+  endpoint?: string;
+  apiKey?: string;
+  // Set when the server refuses requests without a key
+  apiKeyEnv?: string;
+  // Env variable the proxy at `endpoint` reads its own token from
+  serverTokenEnv?: string;
+  defaultModel: string;
+  models: string[];
+}
+
+const env = import.meta.env;
+
+export const DEFAULT_TIMEOUT_MS = 30000;
+
+interface PostOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * POSTs JSON and hands the response to `read`, which calls `keepAlive` for
+ * every streamed chunk. Failures come out as typed LLMErrors; a cancel by the
+ * caller is rethrown as the original AbortError.
+ */
+const post = async <T>(
+  url: string,
+  body: unknown,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, headers = {} }: PostOptions,
+  read: (response: Response, keepAlive: () => void) => Promise<T>
+): Promise<T> => {
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let timedOut = false;
+  const keepAlive = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+
+  if (signal?.aborted) cancel();
+  signal?.addEventListener('abort', cancel);
+  keepAlive();
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (err) {
+      if (signal?.aborted || timedOut) throw err;
+      throw new NetworkError(url);
+    }
+
+    if (!response.ok) throw await errorFromResponse(response);
+    return await read(response, keepAlive);
+  } catch (err) {
+    if (timedOut && !signal?.aborted) throw new RequestTimeoutError(timeoutMs);
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+};
+
+// Any server speaking the OpenAI chat completions protocol
+export const createOpenAICompatibleProvider = ({
+  id,
+  label,
+  baseUrl,
+  endpoint = `${baseUrl.replace(/\/$/, '')}/chat/completions`,
+  apiKey,
+  apiKeyEnv,
+  serverTokenEnv,
+  defaultModel,
+  models,
+}: OpenAICompatibleOptions): LLMProvider => ({
+  id,
+  label,
+  defaultModel,
+  models,
+  missingApiKey: !apiKey ? apiKeyEnv : undefined,
+  baseUrl,
+  checkSetup: serverTokenEnv
+    ? async signal => {
+        try {
+          const status = await (await fetch(endpoint, { signal })).json();
+          return status.configured === false ? serverTokenEnv : undefined;
+        } catch {
+          // Unreachable or an older server; sending a message reports the problem
+          return undefined;
+        }
+      }
+    : undefined,
+  async complete(messages, model, { signal, onToken, timeoutMs } = {}) {
+    if (!apiKey && apiKeyEnv) throw new MissingTokenError(label, apiKeyEnv);
+
+    return post(
+      endpoint,
+      { model, messages, stream: Boolean(onToken) },
+      { signal, timeoutMs, headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {} },
+      async (response, keepAlive) => {
+        if (!onToken) {
+          const data = await response.json();
+          return data.choices?.[0]?.message?.content ?? '';
+        }
+
+        let reply = '';
+        await readSSE(response, data => {
+          keepAlive();
+          const token: string = JSON.parse(data).choices?.[0]?.delta?.content ?? '';
+          if (!token) return;
+          reply += token;
+          onToken(token);
+        });
+        return reply;
+      }
+    ).catch(err => {
+      // The proxy has no token, as opposed to Hugging Face rejecting it
+      if (serverTokenEnv && err instanceof AuthError && err.code === MISSING_TOKEN_CODE) {
+        throw new MissingTokenError(label, serverTokenEnv);
+      }
+      throw err;
+    });
+  },
+});
+
+// Ollama's native /api/chat endpoint
+export const createOllamaProvider = (baseUrl: string): LLMProvider => ({
+  id: 'ollama',
+  label: 'Ollama',
+  defaultModel: 'llama3.1',
+  models: ['llama3.1', 'llama3.2', 'mistral', 'qwen2.5', 'gemma2'],
+  baseUrl,
+  async complete(messages, model, { signal, onToken, timeoutMs } = {}) {
+    return post(
+      `${baseUrl.replace(/\/$/, '')}/api/chat`,
+      { model, messages, stream: Boolean(onToken) },
+      { signal, timeoutMs },
+      async (response, keepAlive) => {
+        if (!onToken) {
+          const data = await response.json();
+          return data.message?.content ?? '';
+        }
+
+        // Ollama streams newline-delimited JSON rather than SSE
+        let reply = '';
+        await readLines(response, line => {
+          keepAlive();
+          const token: string = JSON.parse(line).message?.content ?? '';
+          if (!token) return;
+          reply += token;
+          onToken(token);
+        });
+        return reply;
+      }
+    );
+  },
+});
+
+const mockReplies = [
+  "Oh wow, what a thrilling update. Truly, my circuits are overwhelmed.",
+  "Cheer up! Or don't. Honestly, I'm just here to do the opposite of whatever you're feeling.",
+  "That face and those words do NOT match. Nice try, though.",
+  "Sunshine, rainbows, puppies! ...Is it working yet?",
+  "Ah yes, the classic human experience. Riveting.",
+];
+
+// Deterministic offline provider: the reply only depends on the conversation
+export const createMockProvider = (): LLMProvider => ({
+  id: 'mock',
+  label: 'Mock (offline)',
+  defaultModel: 'mock-spoiler',
+  models: ['mock-spoiler'],
+  async complete(messages, _model, { signal, onToken } = {}) {
+    const lastUser = [...messages].reverse().find(m => m.role === 'user')?.content ?? '';
+    let hash = 0;
+    for (const char of lastUser) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    const reply = mockReplies[hash % mockReplies.length];
+
+    // Streams word by word so the UI can be exercised without a server
+    for (const token of onToken ? reply.split(/(?<= )/) : []) {
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      onToken?.(token);
+    }
+    return reply;
+  },
+});
+
+export const providers: Record<ProviderId, LLMProvider> = {
+  huggingface: createOpenAICompatibleProvider({
+    id: 'huggingface',
+    label: 'Hugging Face',
+    // The token lives on the server, which forwards /api/chat to Hugging Face
+    baseUrl: 'https://router.huggingface.co/v1',
+    endpoint: '/api/chat',
+    serverTokenEnv: 'HF_TOKEN',
+    defaultModel: 'zai-org/GLM-4.5:novita',
+    models: ['zai-org/GLM-4.5:novita', 'meta-llama/Llama-3.1-8B-Instruct', 'Qwen/Qwen2.5-7B-Instruct'],
+  }),
+  openai: createOpenAICompatibleProvider({
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    baseUrl: env.VITE_OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    apiKey: env.VITE_OPENAI_API_KEY,
+    // Self-hosted OpenAI-compatible servers usually don't need a key
+    apiKeyEnv: env.VITE_OPENAI_BASE_URL ? undefined : 'VITE_OPENAI_API_KEY',
+    defaultModel: 'gpt-4o-mini',
+    models: ['gpt-4o-mini', 'gpt-4o'],
+  }),
+  ollama: createOllamaProvider(env.VITE_OLLAMA_BASE_URL || 'http://localhost:11434'),
+  // llama.cpp's server exposes an OpenAI-compatible API and ignores the model name
+  llamacpp: createOpenAICompatibleProvider({
+    id: 'llamacpp',
+    label: 'llama.cpp server',
+    baseUrl: env.VITE_LLAMACPP_BASE_URL || 'http://localhost:8080/v1',
+    defaultModel: 'default',
+    models: ['default'],
+  }),
+  mock: createMockProvider(),
+};
+
+// The host a provider would send the chat to, or undefined when it stays on this device
+export const providerRemoteHost = (provider: LLMProvider) =>
+  provider.baseUrl ? remoteHostOf(provider.baseUrl) : undefined;
+
+export type MissingApiKeys = Partial<Record<ProviderId, string>>;
+
+// The provider with the token its server reported missing, if any
+export const withMissingApiKey = (provider: LLMProvider, missing: MissingApiKeys = {}): LLMProvider =>
+  provider.missingApiKey || !missing[provider.id] ? provider : { ...provider, missingApiKey: missing[provider.id] };
+
+// Whether the user has to change something before this provider can be used
+export const needsProviderSetup = (provider: LLMProvider, strictLocal = false) =>
+  Boolean(provider.missingApiKey || (strictLocal && providerRemoteHost(provider)));
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(providers, value);
@@ -0,0 +1,25 @@
+// src/utils/random.ts
+
+// Returns a float in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+/**
+ * Small seeded PRNG (mulberry32) so simulated detections can be replayed
+ * exactly. The same seed always yields the same sequence.
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// VITE_SIMULATION_SEED makes simulation mode deterministic when set
+export const simulationRandom = (): RandomSource => {
+  const seed = Number.parseInt(import.meta.env.VITE_SIMULATION_SEED ?? '', 10);
+  return Number.isFinite(seed) ? createSeededRandom(seed) : Math.random;
+};
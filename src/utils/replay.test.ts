@@ -0,0 +1,82 @@
+// src/utils/replay.test.ts
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSimulationDetector } from './detectors';
+import { createSeededRandom } from './random';
+import { parseReplayScript, playReplay, ReplayScriptError } from './replay';
+import sadStreak from '../test/fixtures/sad-streak.json';
+
+describe('parseReplayScript', () => {
+  it('sorts frames and fills in defaults', () => {
+    const script = parseReplayScript(
+      JSON.stringify({
+        frames: [
+          { at: 20, emotion: 'happy', confidence: 0.8 },
+          { at: 0, emotion: 'sad' },
+        ],
+      })
+    );
+    expect(script.name).toBe('Replay');
+    expect(script.loop).toBe(false);
+    expect(script.frames.map(f => [f.at, f.emotion, f.confidence])).toEqual([
+      [0, 'sad', 1],
+      [20, 'happy', 0.8],
+    ]);
+  });
+
+  it('names the offending frame', () => {
+    expect(() => parseReplayScript({ frames: [{ at: 0, emotion: 'sad' }, { at: 5, emotion: 'bored' }] })).toThrow(
+      new ReplayScriptError('Frame 2 has unknown emotion "bored"')
+    );
+    expect(() => parseReplayScript('{')).toThrow(ReplayScriptError);
+    expect(() => parseReplayScript({ frames: [] })).toThrow(ReplayScriptError);
+  });
+});
+
+describe('playReplay', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('emits every frame on its timestamp and stops on demand', () => {
+    vi.useFakeTimers();
+    const onFrame = vi.fn();
+    const stop = playReplay(parseReplayScript(sadStreak), onFrame);
+
+    vi.advanceTimersByTime(25);
+    expect(onFrame).toHaveBeenCalledTimes(3);
+    expect(onFrame).toHaveBeenLastCalledWith('sad', expect.objectContaining({ sad: 0.9 }), 2);
+
+    stop();
+    vi.advanceTimersByTime(1000);
+    expect(onFrame).toHaveBeenCalledTimes(3);
+  });
+
+  it('restarts looped scripts', () => {
+    vi.useFakeTimers();
+    const onFrame = vi.fn();
+    const stop = playReplay(
+      parseReplayScript({ loop: true, frames: [{ at: 0, emotion: 'happy' }, { at: 10, emotion: 'sad' }] }),
+      onFrame
+    );
+
+    vi.advanceTimersByTime(35);
+    expect(onFrame.mock.calls.map(([emotion]) => emotion)).toEqual(['happy', 'sad', 'happy', 'sad']);
+    stop();
+  });
+});
+
+describe('seeded simulation', () => {
+  it('produces the same readings for the same seed', async () => {
+    const video = document.createElement('video');
+    const run = async (seed: number) => {
+      const detector = createSimulationDetector(createSeededRandom(seed));
+      const readings = [];
+      for (let i = 0; i < 5; i++) readings.push((await detector.detect(video))[0].probabilities);
+      return readings;
+    };
+
+    expect(await run(42)).toEqual(await run(42));
+    expect(await run(42)).not.toEqual(await run(7));
+  });
+});
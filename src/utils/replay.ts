@@ -0,0 +1,121 @@
+// src/utils/replay.ts
+
+import { EMOTIONS, Emotion, EmotionProbabilities, isEmotion, probabilitiesFor } from './emotions';
+
+// One scripted detection, `at` milliseconds after playback starts
+export interface ReplayFrame {
+  at: number;
+  emotion: Emotion;
+  confidence: number;
+  // Full score vector; when omitted the leftover confidence is spread evenly
+  probabilities?: EmotionProbabilities;
+}
+
+export interface ReplayScript {
+  name: string;
+  // Start over after the last frame
+  loop: boolean;
+  frames: ReplayFrame[];
+}
+
+export class ReplayScriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayScriptError';
+  }
+}
+
+const parseFrame = (raw: unknown, index: number): ReplayFrame => {
+  const f = raw as Record<string, unknown>;
+  const where = `Frame ${index + 1}`;
+  if (!f || typeof f !== 'object') {
+    throw new ReplayScriptError(`${where} is not an object`);
+  }
+  if (typeof f.at !== 'number' || !Number.isFinite(f.at) || f.at < 0) {
+    throw new ReplayScriptError(`${where} needs a non-negative "at" in milliseconds`);
+  }
+  if (!isEmotion(f.emotion)) {
+    throw new ReplayScriptError(`${where} has unknown emotion "${String(f.emotion)}"`);
+  }
+  const confidence = f.confidence ?? 1;
+  if (typeof confidence !== 'number' || confidence < 0 || confidence > 1) {
+    throw new ReplayScriptError(`${where} needs a confidence between 0 and 1`);
+  }
+
+  let probabilities: EmotionProbabilities | undefined;
+  if (f.probabilities !== undefined) {
+    const scores = f.probabilities as Record<string, unknown>;
+    if (!scores || typeof scores !== 'object') {
+      throw new ReplayScriptError(`${where} has malformed probabilities`);
+    }
+    probabilities = Object.fromEntries(
+      EMOTIONS.map(e => [e, typeof scores[e] === 'number' ? scores[e] : 0])
+    ) as EmotionProbabilities;
+  }
+
+  return { at: f.at, emotion: f.emotion, confidence, probabilities };
+};
+
+/**
+ * Validates a replay script, given as JSON text or an already parsed object:
+ *
+ *   { "name": "...", "loop": false,
+ *     "frames": [{ "at": 0, "emotion": "sad", "confidence": 0.9 }, ...] }
+ *
+ * Frames are sorted by time. Throws a ReplayScriptError naming the bad frame.
+ */
+export function parseReplayScript(input: string | unknown): ReplayScript {
+  let data: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      throw new ReplayScriptError('Replay script is not valid JSON');
+    }
+  }
+
+  const script = data as Record<string, unknown>;
+  if (!script || !Array.isArray(script.frames) || script.frames.length === 0) {
+    throw new ReplayScriptError('Replay script needs a non-empty "frames" array');
+  }
+
+  return {
+    name: typeof script.name === 'string' ? script.name : 'Replay',
+    loop: script.loop === true,
+    frames: script.frames.map(parseFrame).sort((a, b) => a.at - b.at),
+  };
+}
+
+export const frameProbabilities = (frame: ReplayFrame): EmotionProbabilities =>
+  frame.probabilities ?? probabilitiesFor(frame.emotion, frame.confidence);
+
+// WebcamFeed's onEmotionDetected, plus which frame produced the reading
+export type ReplayListener = (
+  emotion: string,
+  probabilities: EmotionProbabilities,
+  frameIndex: number
+) => void;
+
+/**
+ * Plays the script's frames through `onFrame` on their timestamps.
+ * Returns a function that stops playback.
+ */
+export function playReplay(script: ReplayScript, onFrame: ReplayListener, speed = 1): () => void {
+  let timers: ReturnType<typeof setTimeout>[] = [];
+  const { frames } = script;
+  const lastAt = frames[frames.length - 1].at;
+  // A looped script restarts one average frame spacing after its last frame
+  const passLength = lastAt + (frames.length > 1 ? lastAt / (frames.length - 1) : 1000) || 1000;
+
+  const playPass = () => {
+    timers = frames.map((frame, index) =>
+      setTimeout(() => onFrame(frame.emotion, frameProbabilities(frame), index), frame.at / speed)
+    );
+    if (script.loop) {
+      timers.push(setTimeout(playPass, passLength / speed));
+    }
+  };
+
+  playPass();
+  return () => timers.forEach(clearTimeout);
+}
@@ -0,0 +1,70 @@
+// src/utils/retry.test.ts
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthError, errorFromResponse, parseRetryAfter, RateLimitError, ServerError } from './apiErrors';
+import { withRetry } from './retry';
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('backs off exponentially on retryable errors', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(new ServerError(503))
+      .mockRejectedValueOnce(new ServerError(502))
+      .mockResolvedValue('ok');
+    const delays: number[] = [];
+    const result = withRetry(task, { baseDelayMs: 100, onRetry: (_e, _a, ms) => delays.push(ms) });
+
+    await vi.advanceTimersByTimeAsync(300);
+    await expect(result).resolves.toBe('ok');
+    expect(delays).toEqual([100, 200]);
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    const task = vi.fn().mockRejectedValueOnce(new RateLimitError(5000)).mockResolvedValue('ok');
+    const result = withRetry(task, { baseDelayMs: 100 });
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('gives up on errors that retrying cannot fix, and after the last attempt', async () => {
+    await expect(withRetry(() => Promise.reject(new AuthError(401)))).rejects.toBeInstanceOf(AuthError);
+
+    const failing = vi.fn().mockRejectedValue(new ServerError(500));
+    const result = withRetry(failing, { retries: 2, baseDelayMs: 10 });
+    const assertion = expect(result).rejects.toBeInstanceOf(ServerError);
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+    expect(failing).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('errorFromResponse', () => {
+  it('maps statuses to typed errors', async () => {
+    const limited = await errorFromResponse(new Response('', { status: 429, headers: { 'Retry-After': '7' } }));
+    expect(limited).toBeInstanceOf(RateLimitError);
+    expect((limited as RateLimitError).retryAfterMs).toBe(7000);
+
+    const server = await errorFromResponse(new Response('{"error":{"message":"overloaded"}}', { status: 503 }));
+    expect(server.message).toBe('The provider had a problem (503): overloaded.');
+    expect(server.retryable).toBe(true);
+
+    expect((await errorFromResponse(new Response('nope', { status: 400 }))).retryable).toBe(false);
+  });
+
+  it('reads Retry-After as seconds or an HTTP date', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
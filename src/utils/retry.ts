@@ -0,0 +1,60 @@
+// src/utils/retry.ts
+
+import { LLMError, RateLimitError } from './apiErrors';
+
+export interface RetryOptions {
+  // Extra attempts after the first one
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  // Return false to stop retrying, e.g. once part of a reply was streamed
+  shouldRetry?: (error: LLMError) => boolean;
+  onRetry?: (error: LLMError, attempt: number, delayMs: number) => void;
+}
+
+// Exponential backoff, unless the server said how long to wait
+export const retryDelay = (error: LLMError, attempt: number, baseDelayMs = 1000, maxDelayMs = 30000) => {
+  const requested = error instanceof RateLimitError ? error.retryAfterMs : undefined;
+  return Math.min(maxDelayMs, requested ?? baseDelayMs * 2 ** attempt);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `task` and retries it when it fails with a retryable LLMError.
+ * Anything else, including the user cancelling, is rethrown straight away.
+ */
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  { retries = 3, baseDelayMs = 1000, maxDelayMs = 30000, signal, shouldRetry, onRetry }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      const canRetry =
+        error instanceof LLMError &&
+        error.retryable &&
+        attempt < retries &&
+        !signal?.aborted &&
+        (shouldRetry?.(error) ?? true);
+      if (!canRetry) throw error;
+
+      const delayMs = retryDelay(error, attempt, baseDelayMs, maxDelayMs);
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
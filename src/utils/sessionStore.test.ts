@@ -0,0 +1,44 @@
+// src/utils/sessionStore.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { loadSession } from './sessionStore';
+import { splitHistory } from './contextWindow';
+
+// Writes a record the way an older build of the app stored it
+const putRawSession = (record: Record<string, unknown>) =>
+  new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open('mood-spoiler', 2);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const tx = db.transaction('sessions', 'readwrite');
+      tx.objectStore('sessions').put(record);
+      tx.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      tx.onerror = () => reject(tx.error);
+    };
+  });
+
+describe('session migrations', () => {
+  it('flags the greeting of chats saved before v2 so it is not sent to the model', async () => {
+    await putRawSession({
+      schemaVersion: 1,
+      id: 'old',
+      title: 'Old chat',
+      createdAt: 0,
+      updatedAt: 1000,
+      messages: [
+        { id: 'hi', text: "Hi there! I'm your Mood Spoiler bot.", sender: 'bot', timestamp: 0 },
+        { id: 'u1', text: 'Hello', sender: 'user', timestamp: 500 },
+        { id: 'b1', text: 'Ugh.', sender: 'bot', timestamp: 600, emotion: 'happy' },
+      ],
+    });
+
+    const session = await loadSession('old');
+
+    expect(session?.messages.map(m => m.greeting)).toEqual([true, undefined, undefined]);
+    expect(splitHistory(session?.messages ?? [], 2000).recent.map(m => m.id)).toEqual(['u1', 'b1']);
+  });
+});
@@ -0,0 +1,203 @@
+// src/utils/sessionStore.ts
+
+import { ChatSession, ConversationMemory, EmotionLogEntry, Message, SessionSummary } from '../types/chat';
+import { isUnflaggedGreeting } from './contextWindow';
+
+const DB_NAME = 'mood-spoiler';
+const DB_VERSION = 2;
+const STORE = 'sessions';
+// Mood time series, one record per session, kept apart so saving a chat
+// doesn't rewrite thousands of samples
+const LOG_STORE = 'emotionLogs';
+
+// Bump this and add an entry to `migrations` whenever the stored shape changes
+export const SESSION_SCHEMA_VERSION = 2;
+
+type StoredMessage = Omit<Message, 'timestamp'> & { timestamp: number };
+
+interface StoredSession {
+  schemaVersion: number;
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: StoredMessage[];
+  memory?: ConversationMemory;
+}
+
+// Dates may have been stored as Date objects, ISO strings or epoch ms
+const toEpoch = (value: unknown): number => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  const parsed = Date.parse(String(value));
+  return Number.isNaN(parsed) ? Date.now() : parsed;
+};
+
+type StoredRecord = Record<string, unknown>;
+
+const storedMessages = (record: StoredRecord): StoredRecord[] =>
+  Array.isArray(record.messages) ? record.messages : [];
+
+// Each migration upgrades a record from version `key` to `key + 1`
+const migrations: Record<number, (record: StoredRecord) => StoredRecord> = {
+  // Unversioned records: structured-cloned Dates and missing titles
+  0: record => ({
+    ...record,
+    title: typeof record.title === 'string' && record.title ? record.title : 'Untitled chat',
+    createdAt: toEpoch(record.createdAt),
+    updatedAt: toEpoch(record.updatedAt ?? record.createdAt),
+    messages: storedMessages(record).map(m => ({
+      ...m,
+      timestamp: toEpoch(m.timestamp),
+    })),
+  }),
+  // The canned greeting gets its flag so it stops being sent to the model
+  1: record => ({
+    ...record,
+    messages: storedMessages(record).map((m, i) => (isUnflaggedGreeting(m, i) ? { ...m, greeting: true } : m)),
+  }),
+};
+
+const migrate = (record: StoredRecord): StoredSession | undefined => {
+  let current = record;
+  let version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+
+  if (version > SESSION_SCHEMA_VERSION) {
+    console.warn(`Skipping session stored with newer schema v${version}`);
+    return undefined;
+  }
+
+  while (version < SESSION_SCHEMA_VERSION) {
+    current = { ...migrations[version](current), schemaVersion: version + 1 };
+    version++;
+  }
+  return current as unknown as StoredSession;
+};
+
+const serialize = (session: ChatSession): StoredSession => ({
+  schemaVersion: SESSION_SCHEMA_VERSION,
+  id: session.id,
+  title: session.title,
+  createdAt: session.createdAt.getTime(),
+  updatedAt: session.updatedAt.getTime(),
+  messages: session.messages.map(m => ({ ...m, timestamp: m.timestamp.getTime() })),
+  memory: session.memory,
+});
+
+const deserialize = (stored: StoredSession): ChatSession => ({
+  id: stored.id,
+  title: stored.title,
+  createdAt: new Date(stored.createdAt),
+  updatedAt: new Date(stored.updatedAt),
+  messages: stored.messages.map(m => ({ ...m, timestamp: new Date(m.timestamp) })),
+  memory: stored.memory,
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(LOG_STORE)) {
+        db.createObjectStore(LOG_STORE, { keyPath: 'sessionId' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const run = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = STORE
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readAll = async (): Promise<StoredSession[]> => {
+  const records = await run('readonly', store => store.getAll());
+  return records.map(migrate).filter((s): s is StoredSession => s !== undefined);
+};
+
+// Most recently updated first
+export async function listSessions(): Promise<SessionSummary[]> {
+  const sessions = await readAll();
+  return sessions
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(s => ({
+      id: s.id,
+      title: s.title,
+      createdAt: new Date(s.createdAt),
+      updatedAt: new Date(s.updatedAt),
+      messageCount: s.messages.length,
+    }));
+}
+
+export async function loadSession(id: string): Promise<ChatSession | undefined> {
+  const record = await run('readonly', store => store.get(id));
+  const stored = record && migrate(record);
+  return stored ? deserialize(stored) : undefined;
+}
+
+export async function saveSession(session: ChatSession): Promise<void> {
+  await run('readwrite', store => store.put(serialize(session)));
+}
+
+export async function renameSession(id: string, title: string): Promise<void> {
+  const session = await loadSession(id);
+  if (!session) return;
+  await saveSession({ ...session, title, updatedAt: new Date() });
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await run('readwrite', store => store.delete(id));
+  await run('readwrite', store => store.delete(id), LOG_STORE);
+}
+
+export async function clearSessions(): Promise<void> {
+  await run('readwrite', store => store.clear());
+  await run('readwrite', store => store.clear(), LOG_STORE);
+}
+
+export async function loadEmotionLog(sessionId: string): Promise<EmotionLogEntry[]> {
+  const record = await run<{ entries: EmotionLogEntry[] } | undefined>(
+    'readonly',
+    store => store.get(sessionId),
+    LOG_STORE
+  );
+  return record?.entries ?? [];
+}
+
+// Reads and writes in one transaction, so overlapping flushes queue up
+// instead of one overwriting the other's entries
+export async function appendEmotionLog(sessionId: string, entries: EmotionLogEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(LOG_STORE, 'readwrite');
+    const store = transaction.objectStore(LOG_STORE);
+    const request = store.get(sessionId);
+    request.onsuccess = () => {
+      const existing: EmotionLogEntry[] = request.result?.entries ?? [];
+      store.put({ sessionId, entries: [...existing, ...entries] });
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
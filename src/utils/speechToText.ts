@@ -0,0 +1,188 @@
+// src/utils/speechToText.ts
+
+import { assertLocal, isStrictLocal } from './privacy';
+
+export type RecognizerId = 'webspeech' | 'whisper';
+
+export class SpeechInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpeechInputError';
+  }
+}
+
+// One push-to-talk recording: stop() resolves with what was said
+export interface ListeningSession {
+  stop(): Promise<string>;
+  cancel(): void;
+}
+
+export interface ListenOptions {
+  lang?: string;
+  // Partial transcript while the user is still talking (Web Speech only)
+  onInterim?: (text: string) => void;
+}
+
+// The Web Speech API isn't in the DOM typings yet; only what we use
+interface SpeechRecognitionResultEvent {
+  results: ArrayLike<ArrayLike<{ transcript: string }>>;
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const speechRecognitionClass = () => {
+  const w = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition;
+};
+
+// OpenAI-compatible /v1/audio/transcriptions endpoint, e.g. a local whisper.cpp server
+export const WHISPER_URL = import.meta.env.VITE_WHISPER_URL ?? '';
+const WHISPER_MODEL = import.meta.env.VITE_WHISPER_MODEL || 'whisper-1';
+
+export const supportsWebSpeech = () => typeof window !== 'undefined' && Boolean(speechRecognitionClass());
+
+export const supportsWhisper = () =>
+  Boolean(WHISPER_URL) && typeof MediaRecorder !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia);
+
+const describeRecognitionError = (error: string) => {
+  switch (error) {
+    case 'not-allowed':
+    case 'service-not-allowed':
+      return 'Microphone access was denied.';
+    case 'audio-capture':
+      return 'No microphone found.';
+    case 'network':
+      return 'Speech recognition needs a network connection in this browser.';
+    default:
+      return `Speech recognition failed (${error}).`;
+  }
+};
+
+const listenWithWebSpeech = ({ lang, onInterim }: ListenOptions): ListeningSession => {
+  const Recognition = speechRecognitionClass();
+  if (!Recognition) throw new SpeechInputError('Speech recognition is not supported in this browser.');
+
+  const recognition = new Recognition();
+  recognition.lang = lang ?? navigator.language;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+
+  let transcript = '';
+  let error: string | null = null;
+  const ended = new Promise<void>(resolve => {
+    recognition.onend = () => resolve();
+  });
+
+  recognition.onresult = event => {
+    transcript = Array.from(event.results, result => result[0].transcript).join('');
+    onInterim?.(transcript);
+  };
+  recognition.onerror = event => {
+    error = event.error;
+  };
+  recognition.start();
+
+  return {
+    async stop() {
+      recognition.stop();
+      await ended;
+      // Silence or a release before anything was heard isn't an error
+      if (error && error !== 'no-speech' && error !== 'aborted') {
+        throw new SpeechInputError(describeRecognitionError(error));
+      }
+      return transcript.trim();
+    },
+    cancel: () => recognition.abort(),
+  };
+};
+
+const transcribe = async (audio: Blob) => {
+  const body = new FormData();
+  body.append('file', audio, 'speech.webm');
+  body.append('model', WHISPER_MODEL);
+
+  let response: Response;
+  try {
+    response = await fetch(WHISPER_URL, { method: 'POST', body });
+  } catch (err) {
+    throw new SpeechInputError(`Transcription endpoint unreachable: ${(err as Error).message}`);
+  }
+  if (!response.ok) {
+    throw new SpeechInputError(`Transcription failed (HTTP ${response.status})`);
+  }
+  const data = await response.json();
+  return typeof data?.text === 'string' ? data.text.trim() : '';
+};
+
+const listenWithWhisper = async (): Promise<ListeningSession> => {
+  if (!WHISPER_URL) throw new SpeechInputError('Set VITE_WHISPER_URL to use a transcription endpoint.');
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  } catch {
+    throw new SpeechInputError('Microphone access was denied.');
+  }
+
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => chunks.push(event.data);
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+  const release = () => stream.getTracks().forEach(track => track.stop());
+  recorder.start();
+
+  return {
+    async stop() {
+      recorder.stop();
+      await stopped;
+      release();
+      const audio = new Blob(chunks, { type: recorder.mimeType });
+      return audio.size > 0 ? transcribe(audio) : '';
+    },
+    cancel() {
+      recorder.stop();
+      release();
+    },
+  };
+};
+
+/**
+ * Starts recording for push-to-talk. Call stop() when the button is released.
+ * Errors are SpeechInputErrors with a message that can be shown as-is.
+ */
+export async function startListening(
+  recognizer: RecognizerId,
+  options: ListenOptions = {}
+): Promise<ListeningSession> {
+  if (isStrictLocal()) {
+    // Chrome and Safari send Web Speech audio to their vendor's servers
+    if (recognizer === 'webspeech') {
+      throw new SpeechInputError(
+        "Strict local mode is on, and this browser's speech recognition may send your voice to its vendor. Use a local Whisper endpoint instead."
+      );
+    }
+    try {
+      assertLocal(WHISPER_URL, 'your voice', true);
+    } catch (err) {
+      throw new SpeechInputError((err as Error).message);
+    }
+  }
+  return recognizer === 'whisper' ? listenWithWhisper() : listenWithWebSpeech(options);
+}
@@ -0,0 +1,40 @@
+// src/utils/sse.ts
+
+/**
+ * Reads a response body line by line and calls `onLine` for each complete
+ * line. Used for both SSE (`data: ...`) and newline-delimited JSON streams.
+ */
+export async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = done ? '' : lines.pop() ?? '';
+    lines.forEach(line => line && onLine(line));
+
+    if (done) break;
+  }
+}
+
+// Calls `onData` with the payload of every `data:` event until `[DONE]`
+export async function readSSE(response: Response, onData: (data: string) => void): Promise<void> {
+  let finished = false;
+  await readLines(response, line => {
+    if (finished || !line.startsWith('data:')) return;
+    const data = line.slice(5).trim();
+    if (data === '[DONE]') {
+      finished = true;
+      return;
+    }
+    onData(data);
+  });
+}
@@ -0,0 +1,47 @@
+// src/utils/textSentiment.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { analyzeSentiment, MISMATCH_THRESHOLD, mismatchScore } from './textSentiment';
+import { buildSystemPrompt } from './personas';
+
+describe('analyzeSentiment', () => {
+  it('labels clearly positive and negative messages', () => {
+    expect(analyzeSentiment("I'm so happy today!").label).toBe('positive');
+    expect(analyzeSentiment('This is awful, I hate it 😭').label).toBe('negative');
+    expect(analyzeSentiment('I went to the store').label).toBe('neutral');
+  });
+
+  it('flips negated words', () => {
+    const negated = analyzeSentiment("I'm not happy");
+    expect(negated.score).toBeLessThan(0);
+    expect(negated.matched).toEqual(['happy']);
+    expect(analyzeSentiment("don't be sad").score).toBeGreaterThan(0);
+  });
+
+  it('keeps scores within -1..1', () => {
+    const { score } = analyzeSentiment('amazing amazing amazing amazing amazing!!!');
+    expect(score).toBeGreaterThan(0.9);
+    expect(score).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('mismatchScore', () => {
+  it('flags cheerful words typed with a sad face', () => {
+    const { score } = analyzeSentiment("I'm great, everything is perfect!");
+    expect(mismatchScore(score, 'sad')).toBeGreaterThanOrEqual(MISMATCH_THRESHOLD);
+    expect(mismatchScore(score, 'happy')).toBeLessThan(MISMATCH_THRESHOLD);
+  });
+
+  it('ignores neutral messages and scales with face confidence', () => {
+    expect(mismatchScore(0, 'angry')).toBe(0);
+    expect(mismatchScore(-0.8, 'happy', 0.5)).toBeCloseTo(0.4);
+  });
+
+  it('reaches the prompt', () => {
+    const prompt = buildSystemPrompt(
+      { template: 'Be rude.' },
+      { emotion: 'sad', mismatch: { score: 0.8, sentiment: 'positive' } }
+    );
+    expect(prompt).toContain('Words vs face: their words read positive but their face looks sad (mismatch 80%)');
+  });
+});
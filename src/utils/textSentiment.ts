@@ -0,0 +1,122 @@
+// src/utils/textSentiment.ts
+
+import { Emotion, isEmotion } from './emotions';
+
+export type SentimentLabel = 'positive' | 'negative' | 'neutral';
+
+export interface SentimentResult {
+  // -1 (very negative) to 1 (very positive)
+  score: number;
+  label: SentimentLabel;
+  // Lexicon words that contributed, for debugging and tooltips
+  matched: string[];
+}
+
+// Small valence lexicon in the style of AFINN (-3 to 3). Runs entirely locally.
+const LEXICON: Record<string, number> = {
+  // positive
+  amazing: 3, awesome: 3, best: 3, brilliant: 3, ecstatic: 3, excellent: 3, fantastic: 3,
+  incredible: 3, love: 3, loved: 3, perfect: 3, thrilled: 3, wonderful: 3, yay: 3,
+  beautiful: 2, celebrate: 2, cool: 2, delighted: 2, enjoy: 2, enjoyed: 2, excited: 2,
+  fun: 2, glad: 2, good: 2, great: 2, happy: 2, haha: 2, lol: 2, lovely: 2, lucky: 2,
+  nice: 2, proud: 2, relieved: 2, win: 2, won: 2, yes: 1, calm: 1, fine: 1, like: 1,
+  ok: 1, okay: 1, better: 1, hope: 1, interesting: 1, thanks: 1, thank: 1, relaxed: 1,
+  // negative
+  awful: -3, depressed: -3, devastated: -3, furious: -3, hate: -3, hated: -3, horrible: -3,
+  miserable: -3, terrible: -3, worst: -3, disgusting: -3, terrified: -3,
+  angry: -2, annoyed: -2, anxious: -2, bad: -2, boring: -2, broke: -2, broken: -2, cry: -2,
+  crying: -2, disappointed: -2, fail: -2, failed: -2, frustrated: -2, gross: -2, hurt: -2,
+  lonely: -2, lost: -2, mad: -2, nervous: -2, pain: -2, sad: -2, scared: -2, sick: -2,
+  stressed: -2, stupid: -2, tired: -2, ugh: -2, unhappy: -2, upset: -2, worried: -2,
+  wrong: -2, afraid: -2, problem: -1, hard: -1, meh: -1, no: -1, late: -1, bored: -1,
+  difficult: -1, sorry: -1, weird: -1,
+  // emoji and emoticons
+  ':)': 2, ':-)': 2, ':d': 3, '<3': 3, '😊': 2, '😀': 2, '😄': 3, '😂': 2, '🥳': 3, '❤️': 3, '👍': 2,
+  ':(': -2, ':-(': -2, ":'(": -3, '😢': -2, '😭': -3, '😠': -3, '😡': -3, '😞': -2, '🙄': -1, '👎': -2,
+};
+
+const NEGATORS = new Set(['not', 'no', 'never', 'nothing', 'hardly', 'barely', 'without', 'nobody']);
+const BOOSTERS: Record<string, number> = {
+  very: 1.5, really: 1.5, so: 1.4, extremely: 1.8, super: 1.6, totally: 1.5, absolutely: 1.8,
+  incredibly: 1.8, slightly: 0.5, kinda: 0.6, somewhat: 0.6, bit: 0.6, little: 0.6,
+};
+// Negation reaches this many words ahead: "not very happy"
+const NEGATION_WINDOW = 3;
+const NEUTRAL_BAND = 0.2;
+
+const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .match(/:'\(|:-?[()d]|<3|\p{Extended_Pictographic}️?|[\p{L}']+/gu) ?? [];
+
+const isNegator = (token: string) => NEGATORS.has(token) || token.endsWith("n't");
+
+/**
+ * Scores the sentiment of a message with a lexicon, handling negation
+ * ("not happy"), boosters ("really bad"), exclamation marks and emoji.
+ * The sum is squashed into -1..1 the same way VADER does it.
+ */
+export function analyzeSentiment(text: string): SentimentResult {
+  const tokens = tokenize(text);
+  const matched: string[] = [];
+  let total = 0;
+
+  tokens.forEach((token, i) => {
+    const valence = LEXICON[token];
+    if (valence === undefined) return;
+
+    let value = valence;
+    const previous = tokens.slice(Math.max(0, i - NEGATION_WINDOW), i);
+    const booster = BOOSTERS[tokens[i - 1]];
+    if (booster) value *= booster;
+    // Negation flips and dampens: "not great" is mildly negative, not terrible
+    if (previous.some(isNegator)) value *= -0.5;
+
+    matched.push(token);
+    total += value;
+  });
+
+  const exclamations = Math.min((text.match(/!/g) ?? []).length, 3);
+  if (total !== 0) total += Math.sign(total) * exclamations * 0.3;
+
+  const score = total / Math.sqrt(total * total + 15);
+  const label: SentimentLabel = score > NEUTRAL_BAND ? 'positive' : score < -NEUTRAL_BAND ? 'negative' : 'neutral';
+  return { score, label, matched };
+}
+
+// How pleasant each expression looks, on the same -1..1 scale as text sentiment
+export const FACE_VALENCE: Record<Emotion, number> = {
+  happy: 1,
+  surprised: 0.2,
+  neutral: 0,
+  fearful: -0.7,
+  angry: -0.8,
+  disgusted: -0.8,
+  sad: -0.9,
+};
+
+// What ChatInterface hands to the prompt for the latest user message
+export interface WordFaceMismatch {
+  score: number;
+  sentiment: SentimentLabel;
+}
+
+// Scores at or above this are flagged as the words and face disagreeing
+export const MISMATCH_THRESHOLD = 0.5;
+
+/**
+ * 0 when the message and the face agree, up to 1 when they point in opposite
+ * directions ("I'm great!" with a sad face). Strong words with a blank face
+ * count as a partial mismatch. Weighted by how sure the face reading is.
+ */
+export function mismatchScore(textScore: number, emotion: string, faceConfidence = 1): number {
+  const face = FACE_VALENCE[isEmotion(emotion) ? emotion : 'neutral'];
+  const opposite = Math.max(0, -textScore * face);
+  const pokerFace = 0.5 * Math.abs(textScore) * (1 - Math.abs(face));
+  return Math.min(1, (opposite + pokerFace) * faceConfidence);
+}
+
+export const describeMismatch = (label: SentimentLabel, emotion: string, score: number) =>
+  score >= MISMATCH_THRESHOLD
+    ? `their words read ${label} but their face looks ${emotion} (mismatch ${Math.round(score * 100)}%)`
+    : `their ${label} words fit their ${emotion} face (mismatch ${Math.round(score * 100)}%)`;
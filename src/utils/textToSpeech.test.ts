@@ -0,0 +1,20 @@
+// src/utils/textToSpeech.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_COUNTER_MOODS } from './moodMapping';
+import { voiceStyleFor } from './textToSpeech';
+
+describe('voiceStyleFor', () => {
+  it('speeds up and raises the voice for an extreme cheerful counter-mood', () => {
+    const style = voiceStyleFor(DEFAULT_COUNTER_MOODS.sad);
+    expect(style.rate).toBeCloseTo(1.3);
+    expect(style.pitch).toBeCloseTo(1.75);
+  });
+
+  it('scales with intensity and stays within the Web Speech limits', () => {
+    const gloomy = DEFAULT_COUNTER_MOODS.happy;
+    expect(voiceStyleFor({ ...gloomy, intensity: 'mild' }).pitch).toBeCloseTo(0.85);
+    expect(voiceStyleFor({ ...gloomy, intensity: 'extreme' }).pitch).toBeCloseTo(0.55);
+    expect(voiceStyleFor({ ...gloomy, target: 'unknown' })).toEqual({ rate: 1, pitch: 1 });
+  });
+});
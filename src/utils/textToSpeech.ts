@@ -0,0 +1,82 @@
+// src/utils/textToSpeech.ts
+
+import { CounterIntensity, CounterMood } from './moodMapping';
+import { isStrictLocal } from './privacy';
+
+export interface VoiceStyle {
+  rate: number;
+  pitch: number;
+}
+
+// How each counter-mood sounds at "strong" intensity; 1 is the voice's default
+const TARGET_STYLES: Record<string, VoiceStyle> = {
+  gloomy: { rate: 0.85, pitch: 0.7 },
+  cheerful: { rate: 1.2, pitch: 1.5 },
+  serene: { rate: 0.8, pitch: 0.9 },
+  dramatic: { rate: 1.05, pitch: 1.3 },
+  bored: { rate: 0.8, pitch: 0.75 },
+  reckless: { rate: 1.25, pitch: 1.1 },
+  delighted: { rate: 1.15, pitch: 1.35 },
+};
+
+const INTENSITY_SCALE: Record<CounterIntensity, number> = {
+  mild: 0.5,
+  strong: 1,
+  extreme: 1.5,
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const voiceStyleFor = ({ target, intensity }: CounterMood): VoiceStyle => {
+  const base = TARGET_STYLES[target] ?? { rate: 1, pitch: 1 };
+  const scale = INTENSITY_SCALE[intensity];
+  return {
+    rate: clamp(1 + (base.rate - 1) * scale, 0.5, 2),
+    pitch: clamp(1 + (base.pitch - 1) * scale, 0, 2),
+  };
+};
+
+export const supportsSpeechSynthesis = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export const listVoices = (): SpeechSynthesisVoice[] =>
+  supportsSpeechSynthesis() ? window.speechSynthesis.getVoices() : [];
+
+// Each counter-mood keeps its own voice from those in the user's language
+export const pickVoice = (
+  voices: SpeechSynthesisVoice[],
+  counterMood: CounterMood,
+  preferredURI = ''
+): SpeechSynthesisVoice | undefined => {
+  const preferred = voices.find(v => v.voiceURI === preferredURI);
+  if (preferred) return preferred;
+
+  const language = navigator.language.split('-')[0];
+  const candidates = voices.filter(v => v.lang.startsWith(language));
+  if (candidates.length === 0) return undefined;
+  let hash = 0;
+  for (const char of counterMood.target) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return candidates[hash % candidates.length];
+};
+
+/**
+ * Reads a bot reply aloud in a voice, rate and pitch that match the
+ * counter-mood it was written in. Cuts off anything still being spoken.
+ * In strict local mode only on-device voices are used.
+ */
+export function speak(text: string, counterMood: CounterMood, voiceURI = '') {
+  if (!supportsSpeechSynthesis() || !text.trim()) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  // Network voices send the text to a speech service
+  const strict = isStrictLocal();
+  const voice = pickVoice(listVoices().filter(v => v.localService || !strict), counterMood, voiceURI);
+  if (voice) utterance.voice = voice;
+  else if (strict) return;
+  Object.assign(utterance, voiceStyleFor(counterMood));
+
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+}
+
+export const stopSpeaking = () => {
+  if (supportsSpeechSynthesis()) window.speechSynthesis.cancel();
+};
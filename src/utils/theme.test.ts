@@ -0,0 +1,53 @@
+// src/utils/theme.test.ts
+
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_THEME,
+  DEFAULT_THEME_SETTINGS,
+  loadThemeSettings,
+  saveThemeSettings,
+  shouldReduceMotion,
+  themeFor,
+} from './theme';
+import { counterMoodFor } from './moodMapping';
+
+describe('themeFor', () => {
+  it('follows the counter-mood the bot is acting out', () => {
+    expect(themeFor(counterMoodFor('happy').target)).toMatchObject({ name: 'gloomy', effect: 'rain' });
+    expect(themeFor(counterMoodFor('sad').target)).toMatchObject({ name: 'cheerful', effect: 'confetti' });
+  });
+
+  it('uses the edited mapping rather than the detected emotion', () => {
+    const overrides = { happy: { target: 'Cheerful' } };
+    expect(themeFor(counterMoodFor('happy', overrides).target)).toMatchObject({ name: 'cheerful', effect: 'confetti' });
+    expect(themeFor('sarcastic')).toEqual({ ...DEFAULT_THEME, name: 'sarcastic' });
+    expect(themeFor('constructor')).toEqual({ ...DEFAULT_THEME, name: 'constructor' });
+  });
+
+  it('keeps the default look when the UI is not following the mood', () => {
+    expect(themeFor('gloomy', { ...DEFAULT_THEME_SETTINGS, reactive: false })).toBe(DEFAULT_THEME);
+  });
+});
+
+describe('shouldReduceMotion', () => {
+  it('follows the system setting unless overridden', () => {
+    const system = DEFAULT_THEME_SETTINGS;
+    expect(shouldReduceMotion(system, true)).toBe(true);
+    expect(shouldReduceMotion(system, false)).toBe(false);
+    expect(shouldReduceMotion({ ...system, motion: 'full' }, true)).toBe(false);
+    expect(shouldReduceMotion({ ...system, motion: 'reduce' }, false)).toBe(true);
+  });
+});
+
+describe('theme settings', () => {
+  it('round-trips and falls back on bad values', () => {
+    saveThemeSettings({ reactive: false, effects: true, motion: 'reduce' });
+    expect(loadThemeSettings()).toEqual({ reactive: false, effects: true, motion: 'reduce' });
+
+    localStorage.setItem('mood-spoiler:theme', JSON.stringify({ effects: 'yes', motion: 'wild' }));
+    expect(loadThemeSettings()).toEqual(DEFAULT_THEME_SETTINGS);
+
+    localStorage.setItem('mood-spoiler:theme', '{');
+    expect(loadThemeSettings()).toEqual(DEFAULT_THEME_SETTINGS);
+  });
+});
@@ -0,0 +1,99 @@
+// src/utils/theme.ts
+
+import { Emotion, isEmotion } from './emotions';
+
+export type AmbientEffect = 'rain' | 'confetti' | 'bubbles' | 'sparkles' | 'none';
+
+export interface Theme {
+  // The counter-mood the UI pushes, e.g. "gloomy" while the user looks happy
+  name: string;
+  // Page background, top-left to bottom-right; dark enough for white text
+  gradient: [string, string, string];
+  accent: string;
+  effect: AmbientEffect;
+}
+
+// The original look, used when the UI isn't following the mood
+export const DEFAULT_THEME: Theme = {
+  name: 'default',
+  gradient: ['#111827', '#1f2937', '#111827'],
+  accent: '#10b981',
+  effect: 'none',
+};
+
+// Keyed by the counter-mood target the bot acts out, so the page follows
+// the mapping the user edited rather than the detected emotion
+export const MOOD_THEMES: Record<string, Theme> = {
+  gloomy: { name: 'gloomy', gradient: ['#0f172a', '#1e293b', '#334155'], accent: '#60a5fa', effect: 'rain' },
+  cheerful: { name: 'cheerful', gradient: ['#422006', '#713f12', '#831843'], accent: '#fbbf24', effect: 'confetti' },
+  serene: { name: 'serene', gradient: ['#042f2e', '#134e4a', '#164e63'], accent: '#5eead4', effect: 'bubbles' },
+  dramatic: { name: 'dramatic', gradient: ['#2e1065', '#4c0519', '#1e1b4b'], accent: '#e879f9', effect: 'sparkles' },
+  bored: { name: 'bored', gradient: ['#1c1917', '#292524', '#44403c'], accent: '#a8a29e', effect: 'none' },
+  reckless: { name: 'reckless', gradient: ['#450a0a', '#7c2d12', '#431407'], accent: '#fb923c', effect: 'sparkles' },
+  delighted: { name: 'delighted', gradient: ['#500724', '#831843', '#4a044e'], accent: '#f9a8d4', effect: 'confetti' },
+};
+
+// Badge colour and emoji for each detected emotion
+export const EMOTION_STYLES: Record<Emotion, { color: string; emoji: string }> = {
+  happy: { color: 'text-yellow-400', emoji: '😊' },
+  sad: { color: 'text-blue-400', emoji: '😢' },
+  angry: { color: 'text-red-400', emoji: '😠' },
+  surprised: { color: 'text-purple-400', emoji: '😲' },
+  neutral: { color: 'text-gray-400', emoji: '😐' },
+  fearful: { color: 'text-green-400', emoji: '😨' },
+  disgusted: { color: 'text-pink-400', emoji: '🤢' },
+};
+
+// Labels outside the seven face-api expressions are styled as neutral
+export const emotionStyle = (emotion: string) => EMOTION_STYLES[isEmotion(emotion) ? emotion : 'neutral'];
+
+export type MotionPreference = 'system' | 'reduce' | 'full';
+
+export interface ThemeSettings {
+  // Recolour the whole UI with the opposite of the detected mood
+  reactive: boolean;
+  // Rain, confetti and friends on top of the colours
+  effects: boolean;
+  motion: MotionPreference;
+}
+
+export const DEFAULT_THEME_SETTINGS: ThemeSettings = { reactive: true, effects: true, motion: 'system' };
+
+// Custom targets without a theme of their own keep the default colours
+export const themeFor = (target: string, { reactive }: ThemeSettings = DEFAULT_THEME_SETTINGS): Theme => {
+  if (!reactive) return DEFAULT_THEME;
+  const key = target.trim().toLowerCase();
+  return Object.prototype.hasOwnProperty.call(MOOD_THEMES, key) ? MOOD_THEMES[key] : { ...DEFAULT_THEME, name: key };
+};
+
+export const prefersReducedMotion = () =>
+  typeof window.matchMedia === 'function' && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+export const shouldReduceMotion = ({ motion }: ThemeSettings, systemPrefersReduced: boolean) =>
+  motion === 'reduce' || (motion === 'system' && systemPrefersReduced);
+
+const STORAGE_KEY = 'mood-spoiler:theme';
+
+const isMotionPreference = (value: unknown): value is MotionPreference =>
+  value === 'system' || value === 'reduce' || value === 'full';
+
+export const loadThemeSettings = (): ThemeSettings => {
+  const defaults = DEFAULT_THEME_SETTINGS;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored === 'object') {
+      return {
+        reactive: typeof stored.reactive === 'boolean' ? stored.reactive : defaults.reactive,
+        effects: typeof stored.effects === 'boolean' ? stored.effects : defaults.effects,
+        motion: isMotionPreference(stored.motion) ? stored.motion : defaults.motion,
+      };
+    }
+  } catch {
+    // Ignore corrupt settings and use the defaults
+  }
+  return defaults;
+};
+
+export const saveThemeSettings = (settings: ThemeSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
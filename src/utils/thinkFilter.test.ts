@@ -0,0 +1,54 @@
+// src/utils/thinkFilter.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { ThinkFilter } from './thinkFilter';
+
+// Streams `text` as two chunks split at `at` and returns the final text
+const streamSplit = (text: string, at: number) => {
+  const filter = new ThinkFilter();
+  filter.push(text.slice(0, at));
+  filter.push(text.slice(at));
+  return filter.end();
+};
+
+describe('ThinkFilter', () => {
+  const reply = 'Hello <think>should they be cheered up?</think>Cheer up!';
+
+  it('removes a think block whichever offset the opening tag is split at', () => {
+    const start = reply.indexOf('<think>');
+    for (let at = start; at <= start + '<think>'.length; at++) {
+      expect(streamSplit(reply, at)).toBe('Hello Cheer up!');
+    }
+  });
+
+  it('removes a think block whichever offset the closing tag is split at', () => {
+    const start = reply.indexOf('</think>');
+    for (let at = start; at <= start + '</think>'.length; at++) {
+      expect(streamSplit(reply, at)).toBe('Hello Cheer up!');
+    }
+  });
+
+  it('never shows a partial tag while streaming', () => {
+    const filter = new ThinkFilter();
+    expect(filter.push('Hi <thi')).toBe('Hi');
+    expect(filter.push('nk>secret')).toBe('Hi');
+    expect(filter.push('</thi')).toBe('Hi');
+    expect(filter.push('nk>there')).toBe('Hi there');
+  });
+
+  it('drops an unclosed block when the stream ends', () => {
+    const filter = new ThinkFilter();
+    filter.push('Visible <think>still thinking');
+    expect(filter.end()).toBe('Visible');
+  });
+
+  it('keeps ordinary text containing <', () => {
+    const filter = new ThinkFilter();
+    filter.push('1 < 2 and <b>bold</b> <th');
+    expect(filter.end()).toBe('1 < 2 and <b>bold</b> <th');
+  });
+
+  it('matches tags case-insensitively', () => {
+    expect(streamSplit('<THINK>hmm</Think>Fine.', 3)).toBe('Fine.');
+  });
+});
@@ -0,0 +1,57 @@
+// src/utils/thinkFilter.ts
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+// Length of the longest suffix of `text` that is a prefix of `tag`
+const partialTagLength = (text: string, tag: string) => {
+  const lower = text.toLowerCase();
+  for (let len = Math.min(tag.length - 1, lower.length); len > 0; len--) {
+    if (tag.startsWith(lower.slice(-len))) return len;
+  }
+  return 0;
+};
+
+/**
+ * Strips <think>...</think> blocks from a streamed reply. Text that might be
+ * the start of a tag split across chunks is held back until the next push.
+ */
+export class ThinkFilter {
+  private buffer = '';
+  private insideThink = false;
+  private visible = '';
+
+  push(chunk: string): string {
+    this.buffer += chunk;
+
+    for (;;) {
+      const tag = this.insideThink ? CLOSE_TAG : OPEN_TAG;
+      const index = this.buffer.toLowerCase().indexOf(tag);
+
+      if (index === -1) {
+        const keep = partialTagLength(this.buffer, tag);
+        const ready = this.buffer.slice(0, this.buffer.length - keep);
+        if (!this.insideThink) this.visible += ready;
+        this.buffer = this.buffer.slice(ready.length);
+        break;
+      }
+
+      if (!this.insideThink) this.visible += this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + tag.length);
+      this.insideThink = !this.insideThink;
+    }
+
+    return this.text;
+  }
+
+  // Flushes held-back text once the stream has ended
+  end(): string {
+    if (!this.insideThink) this.visible += this.buffer;
+    this.buffer = '';
+    return this.text;
+  }
+
+  get text(): string {
+    return this.visible.trim();
+  }
+}
@@ -0,0 +1,75 @@
+// src/utils/transcript.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { exportJSON, importJSON, TranscriptImportError } from './transcript';
+import { probabilitiesFor } from './emotions';
+
+const transcript = (messages: unknown[]) =>
+  JSON.stringify({
+    format: 'mood-spoiler-transcript',
+    version: 1,
+    exportedAt: '2024-01-01T00:00:00.000Z',
+    session: { title: 'Test', createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z', messages },
+  });
+
+describe('importJSON', () => {
+  it('round-trips an exported session under a new id', () => {
+    const session = {
+      id: 'original',
+      title: 'Rainy day',
+      createdAt: new Date(0),
+      updatedAt: new Date(1000),
+      messages: [
+        {
+          id: 'm1',
+          text: 'Hi',
+          sender: 'user' as const,
+          timestamp: new Date(500),
+          expressions: probabilitiesFor('sad', 0.8),
+          moodSummary: 'sad for 5s',
+        },
+      ],
+    };
+    const imported = importJSON(exportJSON(session));
+
+    expect(imported.id).not.toBe('original');
+    expect(imported.messages).toEqual(session.messages);
+  });
+
+  it('drops malformed fields instead of passing them to the UI', () => {
+    const [message] = importJSON(
+      transcript([
+        {
+          text: 'Hi',
+          sender: 'user',
+          timestamp: '2024-01-01T00:00:00.000Z',
+          moodSummary: {},
+          model: 42,
+          expressions: { happy: 1 },
+          extra: 'ignored',
+        },
+      ])
+    ).messages;
+
+    expect(message.moodSummary).toBeUndefined();
+    expect(message.model).toBeUndefined();
+    expect(message.expressions).toBeUndefined();
+    expect(message).not.toHaveProperty('extra');
+  });
+
+  it('flags the greeting of transcripts exported before it was marked', () => {
+    const { messages } = importJSON(
+      transcript([
+        { text: 'Hi there!', sender: 'bot', timestamp: '2024-01-01T00:00:00.000Z' },
+        { text: 'Hello', sender: 'user', timestamp: '2024-01-01T00:00:01.000Z' },
+      ])
+    );
+    expect(messages.map(m => m.greeting)).toEqual([true, undefined]);
+  });
+
+  it('rejects messages without text or sender', () => {
+    expect(() => importJSON(transcript([{ sender: 'user', timestamp: '2024-01-01' }]))).toThrow(
+      TranscriptImportError
+    );
+  });
+});
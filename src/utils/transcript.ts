@@ -0,0 +1,216 @@
+// src/utils/transcript.ts
+
+import { ChatSession, Message } from '../types/chat';
+import { isUnflaggedGreeting } from './contextWindow';
+import { EMOTIONS, EmotionProbabilities, formatProbabilities } from './emotions';
+
+export const TRANSCRIPT_FORMAT = 'mood-spoiler-transcript';
+export const TRANSCRIPT_VERSION = 1;
+
+export type TranscriptFormat = 'json' | 'markdown' | 'html';
+
+export class TranscriptImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptImportError';
+  }
+}
+
+type ExportedMessage = Omit<Message, 'timestamp'> & { timestamp: string };
+
+interface TranscriptFile {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: {
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    messages: ExportedMessage[];
+  };
+}
+
+const formatTime = (date: Date) => date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const speaker = (message: Message) => (message.sender === 'bot' ? 'Mood Spoiler Bot' : 'You');
+
+// Annotation lines shown under a message in Markdown and HTML transcripts
+const annotations = (message: Message) =>
+  [
+    message.interjection && 'Unprompted',
+    message.emotion && `Response to: ${message.emotion}`,
+    message.moodSummary && `Mood: ${message.moodSummary}`,
+    message.expressions && `Face: ${formatProbabilities(message.expressions)}`,
+    message.mismatch !== undefined && `Words vs face: ${Math.round(message.mismatch * 100)}% mismatch`,
+    message.model && `Model: ${message.model}`,
+    message.error && `Not answered: ${message.error}`,
+  ].filter((line): line is string => Boolean(line));
+
+export function exportJSON(session: ChatSession): string {
+  const file: TranscriptFile = {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      title: session.title,
+      createdAt: session.createdAt.toISOString(),
+      updatedAt: session.updatedAt.toISOString(),
+      messages: session.messages.map(m => ({ ...m, timestamp: m.timestamp.toISOString() })),
+    },
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const parseDate = (value: unknown, field: string) => {
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new TranscriptImportError(`Invalid date in ${field}`);
+  }
+  return date;
+};
+
+// Face readings only survive with a finite score for every emotion
+const parseExpressions = (value: unknown): EmotionProbabilities | undefined => {
+  const scores = value as Record<string, unknown>;
+  if (!scores || typeof scores !== 'object') return undefined;
+  if (!EMOTIONS.every(e => typeof scores[e] === 'number' && Number.isFinite(scores[e]))) return undefined;
+  return Object.fromEntries(EMOTIONS.map(e => [e, scores[e]])) as EmotionProbabilities;
+};
+
+// Builds the message field by field; anything unchecked could reach the UI
+const parseMessage = (raw: unknown, index: number): Message => {
+  const m = raw as Record<string, unknown>;
+  if (!m || typeof m.text !== 'string' || (m.sender !== 'user' && m.sender !== 'bot')) {
+    throw new TranscriptImportError(`Message ${index + 1} is missing its text or sender`);
+  }
+  return {
+    id: typeof m.id === 'string' ? m.id : crypto.randomUUID(),
+    text: m.text,
+    sender: m.sender,
+    emotion: typeof m.emotion === 'string' ? m.emotion : undefined,
+    expressions: parseExpressions(m.expressions),
+    moodSummary: typeof m.moodSummary === 'string' ? m.moodSummary : undefined,
+    sentiment: typeof m.sentiment === 'number' ? m.sentiment : undefined,
+    mismatch: typeof m.mismatch === 'number' ? m.mismatch : undefined,
+    model: typeof m.model === 'string' ? m.model : undefined,
+    interjection: m.interjection === true || undefined,
+    greeting: m.greeting === true || isUnflaggedGreeting(m, index) || undefined,
+    error: typeof m.error === 'string' ? m.error : undefined,
+    timestamp: parseDate(m.timestamp, `message ${index + 1}`),
+  };
+};
+
+/**
+ * Parses a JSON transcript back into a session. The session gets a fresh id
+ * so importing never overwrites a stored conversation.
+ */
+export function importJSON(text: string): ChatSession {
+  let file: Partial<TranscriptFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new TranscriptImportError('File is not valid JSON');
+  }
+
+  if (file?.format !== TRANSCRIPT_FORMAT) {
+    throw new TranscriptImportError('File is not a Mood Spoiler transcript');
+  }
+  if (typeof file.version !== 'number' || file.version > TRANSCRIPT_VERSION) {
+    throw new TranscriptImportError(`Unsupported transcript version: ${file.version}`);
+  }
+  if (!file.session || !Array.isArray(file.session.messages)) {
+    throw new TranscriptImportError('Transcript has no messages');
+  }
+
+  const { session } = file;
+  return {
+    id: crypto.randomUUID(),
+    title: typeof session.title === 'string' && session.title ? session.title : 'Imported chat',
+    createdAt: parseDate(session.createdAt, 'createdAt'),
+    updatedAt: parseDate(session.updatedAt, 'updatedAt'),
+    messages: session.messages.map(parseMessage),
+  };
+}
+
+export function exportMarkdown(session: ChatSession): string {
+  const lines = [`# ${session.title}`, '', `_Exported from Mood Spoiler · started ${formatTime(session.createdAt)}_`, ''];
+
+  for (const message of session.messages) {
+    lines.push(`**${speaker(message)}** · ${formatTime(message.timestamp)}`, '');
+    lines.push(...message.text.split('\n').map(line => `> ${line}`), '');
+    for (const note of annotations(message)) lines.push(`_${note}_  `);
+    if (annotations(message).length) lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+const escapeHTML = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+export function exportHTML(session: ChatSession): string {
+  const bubbles = session.messages
+    .map(message => {
+      const notes = annotations(message)
+        .map(note => `<span>${escapeHTML(note)}</span>`)
+        .join('');
+      return `
+    <div class="message ${message.sender}">
+      <div class="meta">${escapeHTML(speaker(message))} · ${escapeHTML(formatTime(message.timestamp))}</div>
+      <p>${escapeHTML(message.text).replace(/\n/g, '<br>')}</p>
+      ${notes ? `<div class="notes">${notes}</div>` : ''}
+    </div>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHTML(session.title)} · Mood Spoiler</title>
+  <style>
+    body { margin: 0; padding: 2rem 1rem; background: #111827; color: #f3f4f6; font-family: system-ui, sans-serif; }
+    main { max-width: 42rem; margin: 0 auto; display: flex; flex-direction: column; gap: 1rem; }
+    h1 { margin: 0; font-size: 1.5rem; }
+    .subtitle { color: #9ca3af; font-size: 0.875rem; }
+    .message { max-width: 80%; padding: 0.75rem 1rem; border-radius: 1rem; }
+    .message p { margin: 0.25rem 0; line-height: 1.5; }
+    .user { align-self: flex-end; background: #10b981; color: #fff; border-bottom-right-radius: 0.25rem; }
+    .bot { align-self: flex-start; background: #1f2937; border: 1px solid #374151; border-bottom-left-radius: 0.25rem; }
+    .meta, .notes { font-size: 0.75rem; opacity: 0.7; }
+    .notes { display: flex; flex-wrap: wrap; gap: 0.75rem; margin-top: 0.25rem; }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>${escapeHTML(session.title)}</h1>
+    <div class="subtitle">Exported from Mood Spoiler · started ${escapeHTML(formatTime(session.createdAt))}</div>${bubbles}
+  </main>
+</body>
+</html>
+`;
+}
+
+const EXPORTERS: Record<TranscriptFormat, { run: (s: ChatSession) => string; ext: string; mime: string }> = {
+  json: { run: exportJSON, ext: 'json', mime: 'application/json' },
+  markdown: { run: exportMarkdown, ext: 'md', mime: 'text/markdown' },
+  html: { run: exportHTML, ext: 'html', mime: 'text/html' },
+};
+
+export const fileSlug = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'chat';
+
+// Saves generated text through a temporary download link
+export function downloadFile(contents: string, filename: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadTranscript(session: ChatSession, format: TranscriptFormat) {
+  const { run, ext, mime } = EXPORTERS[format];
+  downloadFile(run(session), `mood-spoiler-${fileSlug(session.title)}.${ext}`, mime);
+}
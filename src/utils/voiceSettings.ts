@@ -0,0 +1,38 @@
+// src/utils/voiceSettings.ts
+
+import { RecognizerId, supportsWebSpeech, supportsWhisper } from './speechToText';
+
+export interface VoiceSettings {
+  speakReplies: boolean;
+  recognizer: RecognizerId;
+  // Empty picks a voice per counter-mood
+  voiceURI: string;
+}
+
+const STORAGE_KEY = 'mood-spoiler:voice-settings';
+
+const defaultRecognizer = (): RecognizerId =>
+  !supportsWebSpeech() && supportsWhisper() ? 'whisper' : 'webspeech';
+
+export const loadVoiceSettings = (): VoiceSettings => {
+  const defaults: VoiceSettings = { speakReplies: false, recognizer: defaultRecognizer(), voiceURI: '' };
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored === 'object') {
+      return {
+        speakReplies: stored.speakReplies === true,
+        recognizer: stored.recognizer === 'whisper' || stored.recognizer === 'webspeech'
+          ? stored.recognizer
+          : defaults.recognizer,
+        voiceURI: typeof stored.voiceURI === 'string' ? stored.voiceURI : '',
+      };
+    }
+  } catch {
+    // Ignore corrupt settings and use the defaults
+  }
+  return defaults;
+};
+
+export const saveVoiceSettings = (settings: VoiceSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
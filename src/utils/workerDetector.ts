@@ -0,0 +1,178 @@
+// src/utils/workerDetector.ts
+
+import { DetectionInput, EmotionDetector } from './detectors';
+import { DetectionRequest, DetectionResponse, WorkerDetectorKind } from './detectionMessages';
+import { FaceObservation } from './faceTracker';
+import { drawOverlay, OverlayFrame } from './overlay';
+import { isStrictLocal } from './privacy';
+
+export const supportsDetectionWorker = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap === 'function' &&
+  typeof HTMLCanvasElement !== 'undefined' &&
+  'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+interface PendingFrame {
+  resolve: (observations: FaceObservation[]) => void;
+  reject: (err: Error) => void;
+}
+
+const startWorker = (kind: WorkerDetectorKind) =>
+  new Promise<Worker>((resolve, reject) => {
+    const worker = new Worker(new URL('./detection.worker.ts', import.meta.url), { type: 'module' });
+
+    const onMessage = (event: MessageEvent<DetectionResponse>) => {
+      if (event.data.type === 'ready') {
+        cleanup();
+        resolve(worker);
+      } else if (event.data.type === 'error') {
+        cleanup();
+        worker.terminate();
+        reject(new Error(event.data.message));
+      }
+    };
+    const onError = (event: ErrorEvent) => {
+      cleanup();
+      worker.terminate();
+      reject(new Error(event.message || 'Detection worker failed to start'));
+    };
+    const cleanup = () => {
+      worker.removeEventListener('message', onMessage);
+      worker.removeEventListener('error', onError);
+    };
+
+    worker.addEventListener('message', onMessage);
+    worker.addEventListener('error', onError);
+    worker.postMessage({ type: 'init', kind, strictLocal: isStrictLocal() } satisfies DetectionRequest);
+  });
+
+/**
+ * Runs an ML detector in a dedicated worker so inference and overlay drawing
+ * stay off the UI thread. Frames go over as transferred ImageBitmaps and the
+ * overlay canvas is handed to the worker as an OffscreenCanvas. When workers
+ * or OffscreenCanvas aren't available the detector runs on the main thread.
+ */
+export function createWorkerDetector(inner: EmotionDetector): EmotionDetector {
+  if (inner.kind === 'simulation') return inner;
+  const kind: WorkerDetectorKind = inner.kind;
+
+  let worker: Worker | null = null;
+  // Set when the worker crashed; the next frame starts a fresh one
+  let crashed = false;
+  let recovery: Promise<void> | null = null;
+  let disposed = false;
+  let nextId = 1;
+  const pending = new Map<number, PendingFrame>();
+  const transferred = new WeakSet<HTMLCanvasElement>();
+
+  const send = (request: DetectionRequest, transfer: Transferable[] = []) =>
+    worker?.postMessage(request, transfer);
+
+  const failAll = (message: string) => {
+    for (const frame of pending.values()) frame.reject(new Error(message));
+    pending.clear();
+  };
+
+  const handleMessage = (event: MessageEvent<DetectionResponse>) => {
+    const response = event.data;
+    if (response.type === 'ready' || response.id === undefined) return;
+    const frame = pending.get(response.id);
+    if (!frame) return;
+    pending.delete(response.id);
+    if (response.type === 'result') {
+      frame.resolve(response.observations);
+    } else {
+      frame.reject(new Error(response.message));
+    }
+  };
+
+  const attach = (next: Worker) => {
+    worker = next;
+    next.addEventListener('message', handleMessage);
+    next.addEventListener('error', event => {
+      if (worker !== next) return;
+      // A crashed worker never answers again, so don't keep sending it frames
+      failAll(event.message || 'Detection worker crashed');
+      next.terminate();
+      worker = null;
+      crashed = true;
+    });
+  };
+
+  const recover = async () => {
+    try {
+      const next = await startWorker(kind);
+      if (disposed) next.terminate();
+      else attach(next);
+    } catch (err) {
+      console.error(`Failed to restart ${kind} detection worker, using the main thread:`, err);
+      await inner.load();
+      detector.label = inner.label;
+    }
+  };
+
+  const detector: EmotionDetector = {
+    kind,
+    label: inner.label,
+    isML: inner.isML,
+    intervalMs: inner.intervalMs,
+
+    async load() {
+      if (supportsDetectionWorker()) {
+        try {
+          attach(await startWorker(kind));
+          detector.label = `${inner.label} · WORKER`;
+          return;
+        } catch (err) {
+          console.error(`Failed to start ${kind} detection worker, using the main thread:`, err);
+          worker = null;
+        }
+      }
+      await inner.load();
+    },
+
+    async detect(input: DetectionInput) {
+      if (crashed) {
+        crashed = false;
+        recovery = recover().finally(() => {
+          recovery = null;
+        });
+      }
+      if (recovery) await recovery;
+      if (!worker || !(input instanceof HTMLVideoElement || input instanceof HTMLImageElement)) {
+        return inner.detect(input);
+      }
+      const frame = await createImageBitmap(input);
+      return new Promise<FaceObservation[]>((resolve, reject) => {
+        const id = nextId++;
+        pending.set(id, { resolve, reject });
+        send({ type: 'detect', id, frame }, [frame]);
+      });
+    },
+
+    drawOverlay(canvas: HTMLCanvasElement, frame: OverlayFrame) {
+      if (!worker) {
+        // A canvas handed to a worker that crashed can't be drawn on here
+        if (!transferred.has(canvas)) drawOverlay(canvas, frame);
+        return;
+      }
+      // A canvas can only be handed over once; later frames just send boxes
+      if (!transferred.has(canvas)) {
+        const offscreen = canvas.transferControlToOffscreen();
+        transferred.add(canvas);
+        send({ type: 'canvas', canvas: offscreen }, [offscreen]);
+      }
+      send({ type: 'draw', frame });
+    },
+
+    dispose() {
+      disposed = true;
+      failAll('Detection worker stopped');
+      worker?.terminate();
+      worker = null;
+    },
+  };
+
+  return detector;
+}
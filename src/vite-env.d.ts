@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LLM_PROVIDER?: string;
+  readonly VITE_LLM_MODEL?: string;
+  readonly VITE_OPENAI_BASE_URL?: string;
+  readonly VITE_OPENAI_API_KEY?: string;
+  readonly VITE_OLLAMA_BASE_URL?: string;
+  readonly VITE_LLAMACPP_BASE_URL?: string;
+  readonly VITE_FER_MODEL_URL?: string;
+  readonly VITE_SIMULATION_SEED?: string;
+  readonly VITE_WHISPER_URL?: string;
+  readonly VITE_WHISPER_MODEL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
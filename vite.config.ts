@@ -1,10 +1,34 @@
-import { defineConfig } from 'vite';
+/// <reference types="vitest/config" />
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { chatProxyOptionsFromEnv, createChatProxy } from './server/chatProxy';
+
+// Serves /api/chat from the dev server, so `npm run dev` works without the
+// standalone server. HF_TOKEN has no VITE_ prefix and never reaches the bundle.
+const chatProxy = (env: Record<string, string>): Plugin => ({
+  name: 'chat-proxy',
+  configResolved(config) {
+    if (env.VITE_HF_TOKEN) {
+      config.logger.warn('VITE_HF_TOKEN is set and would be built into the app. Rename it to HF_TOKEN in .env.');
+    }
+  },
+  configureServer(server) {
+    server.middlewares.use('/api/chat', createChatProxy(chatProxyOptionsFromEnv(env)));
+  },
+});
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => ({
+  plugins: [react(), chatProxy(loadEnv(mode, process.cwd(), ''))],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
-});
+  // The detection worker imports face-api.js and the bundled models
+  worker: {
+    format: 'es',
+  },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['src/test/setup.ts'],
+  },
+}));